@@ -0,0 +1,132 @@
+/**
+ * Minimal ABIs for the contracts this package builds calldata for.
+ * Shared by the transaction builders, readers and the calldata decoder.
+ */
+
+/**
+ * Conditional Tokens Framework (also the ERC1155 outcome token).
+ */
+export const ctfAbi = [
+  {
+    name: "splitPosition",
+    type: "function",
+    inputs: [
+      { name: "collateralToken", type: "address" },
+      { name: "parentCollectionId", type: "bytes32" },
+      { name: "conditionId", type: "bytes32" },
+      { name: "partition", type: "uint256[]" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "mergePositions",
+    type: "function",
+    inputs: [
+      { name: "collateralToken", type: "address" },
+      { name: "parentCollectionId", type: "bytes32" },
+      { name: "conditionId", type: "bytes32" },
+      { name: "partition", type: "uint256[]" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "redeemPositions",
+    type: "function",
+    inputs: [
+      { name: "collateralToken", type: "address" },
+      { name: "parentCollectionId", type: "bytes32" },
+      { name: "conditionId", type: "bytes32" },
+      { name: "indexSets", type: "uint256[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "setApprovalForAll",
+    type: "function",
+    inputs: [
+      { name: "operator", type: "address" },
+      { name: "approved", type: "bool" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "isApprovedForAll",
+    type: "function",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "operator", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+  },
+  {
+    name: "balanceOf",
+    type: "function",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "id", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    name: "balanceOfBatch",
+    type: "function",
+    inputs: [
+      { name: "accounts", type: "address[]" },
+      { name: "ids", type: "uint256[]" },
+    ],
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export const negRiskAdapterAbi = [
+  {
+    name: "redeemPositions",
+    type: "function",
+    inputs: [
+      { name: "_conditionId", type: "bytes32" },
+      { name: "_amounts", type: "uint256[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "mergePositions",
+    type: "function",
+    inputs: [
+      { name: "_conditionId", type: "bytes32" },
+      { name: "_amount", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    name: "convertPositions",
+    type: "function",
+    inputs: [
+      { name: "_marketId", type: "bytes32" },
+      { name: "_indexSet", type: "uint256" },
+      { name: "_amount", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+export const multisendAbi = [
+  {
+    name: "multiSend",
+    type: "function",
+    inputs: [{ name: "transactions", type: "bytes" }],
+    outputs: [],
+    stateMutability: "payable",
+  },
+] as const;
@@ -5,6 +5,7 @@ import {
   type SafeTransaction,
 } from "@polymarket/builder-relayer-client";
 
+import { ctfAbi } from "./abis.js";
 import {
   CTF_CONTRACT_ADDRESS,
   CTF_EXCHANGE_ADDRESS,
@@ -14,34 +15,14 @@ import {
 } from "./tokens.js";
 import { DEFAULT_USDC_APPROVAL_THRESHOLD, MAX_UINT256 } from "./constants.js";
 import type {
+  ApprovalDetails,
+  ApprovalPolicy,
   ApprovalStatus,
   CreateApprovalTxsResult,
   HexAddress,
+  UsdcSpenderPolicy,
 } from "./types.js";
 
-const erc1155Abi = [
-  {
-    inputs: [
-      { name: "operator", type: "address" },
-      { name: "approved", type: "bool" },
-    ],
-    name: "setApprovalForAll",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      { name: "account", type: "address" },
-      { name: "operator", type: "address" },
-    ],
-    name: "isApprovedForAll",
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
 const USDC_E_SPENDERS = [
   { address: CTF_CONTRACT_ADDRESS, name: "CTF Contract" },
   { address: NEG_RISK_ADAPTER_ADDRESS, name: "Neg Risk Adapter" },
@@ -76,7 +57,7 @@ export function createAllApprovalTxs(): CreateApprovalTxsResult {
       to: CTF_CONTRACT_ADDRESS,
       operation: OperationType.Call,
       data: encodeFunctionData({
-        abi: erc1155Abi,
+        abi: ctfAbi,
         functionName: "setApprovalForAll",
         args: [address as HexAddress, true],
       }),
@@ -87,53 +68,278 @@ export function createAllApprovalTxs(): CreateApprovalTxsResult {
   return { txs };
 }
 
-export async function checkAllApprovals(params: {
+type ResolvedApprovalPolicy = {
+  usdc: Array<{
+    name: string;
+    spender: HexAddress;
+    amount: bigint;
+    threshold: bigint;
+    capped: boolean;
+  }>;
+  operators: Array<{ name: string; operator: HexAddress }>;
+  topUp: boolean;
+};
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Half the cap (so spending part of a capped allowance does not trigger a re-approval on every
+ * check), never above DEFAULT_USDC_APPROVAL_THRESHOLD.
+ */
+function defaultTopUpThreshold(cap: bigint | undefined): bigint {
+  if (cap === undefined) return DEFAULT_USDC_APPROVAL_THRESHOLD;
+  const half = cap > 1n ? cap / 2n : cap;
+  return half < DEFAULT_USDC_APPROVAL_THRESHOLD ? half : DEFAULT_USDC_APPROVAL_THRESHOLD;
+}
+
+function resolveApprovalPolicy(policy: ApprovalPolicy | undefined): ResolvedApprovalPolicy {
+  const usdcSpenders: UsdcSpenderPolicy[] =
+    policy?.usdcSpenders ??
+    USDC_E_SPENDERS.map(({ address }) => ({ spender: address as HexAddress }));
+  const operators =
+    policy?.outcomeTokenOperators ??
+    OUTCOME_TOKEN_SPENDERS.map(({ address }) => address as HexAddress);
+
+  return {
+    usdc: usdcSpenders.map((p) => {
+      const capped = p.amount !== undefined;
+      const amount = p.amount ?? BigInt(MAX_UINT256);
+      return {
+        name:
+          USDC_E_SPENDERS.find((s) => sameAddress(s.address, p.spender))?.name ?? p.spender,
+        spender: p.spender,
+        amount,
+        threshold: p.topUpThreshold ?? defaultTopUpThreshold(capped ? amount : undefined),
+        capped,
+      };
+    }),
+    operators: operators.map((operator) => ({
+      name:
+        OUTCOME_TOKEN_SPENDERS.find((s) => sameAddress(s.address, operator))?.name ?? operator,
+      operator,
+    })),
+    topUp: policy?.topUp ?? true,
+  };
+}
+
+function usdcAllowanceInPolicy(
+  allowance: bigint | null | undefined,
+  entry: ResolvedApprovalPolicy["usdc"][number],
+  topUp: boolean
+): boolean {
+  if (allowance === null || allowance === undefined) return false;
+  if (entry.capped && allowance > entry.amount) return false;
+  if (allowance >= entry.threshold) return true;
+  return !topUp && allowance > 0n;
+}
+
+/**
+ * Evaluates current approvals against a policy (default: unlimited approvals for every spender).
+ * Only spenders named by the policy are reported.
+ */
+export function evaluateApprovalPolicy(params: {
+  details: ApprovalDetails;
+  policy?: ApprovalPolicy;
+}): ApprovalStatus {
+  const resolved = resolveApprovalPolicy(params.policy);
+
+  const usdcApprovals: Record<string, boolean> = {};
+  const outcomeTokenApprovals: Record<string, boolean> = {};
+
+  for (const entry of resolved.usdc) {
+    const current = params.details.usdc.find((d) => sameAddress(d.spender, entry.spender));
+    usdcApprovals[entry.name] = usdcAllowanceInPolicy(current?.allowance, entry, resolved.topUp);
+  }
+  for (const { name, operator } of resolved.operators) {
+    const current = params.details.outcomeTokens.find((d) => sameAddress(d.operator, operator));
+    outcomeTokenApprovals[name] = current?.approved === true;
+  }
+
+  const allApproved =
+    Object.values(usdcApprovals).every(Boolean) &&
+    Object.values(outcomeTokenApprovals).every(Boolean);
+
+  return { allApproved, usdcApprovals, outcomeTokenApprovals };
+}
+
+/**
+ * Builds the approval transactions required by a policy.
+ * When details are given, only spenders that are out of line with the policy are included.
+ */
+export function createApprovalPolicyTxs(params: {
+  policy?: ApprovalPolicy;
+  details?: ApprovalDetails;
+}): CreateApprovalTxsResult {
+  const resolved = resolveApprovalPolicy(params.policy);
+  const txs: SafeTransaction[] = [];
+
+  for (const entry of resolved.usdc) {
+    if (params.details) {
+      const current = params.details.usdc.find((d) => sameAddress(d.spender, entry.spender));
+      if (usdcAllowanceInPolicy(current?.allowance, entry, resolved.topUp)) continue;
+    }
+    txs.push({
+      to: USDC_E_CONTRACT_ADDRESS,
+      operation: OperationType.Call,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [entry.spender, entry.amount],
+      }),
+      value: "0",
+    });
+  }
+
+  for (const { operator } of resolved.operators) {
+    if (params.details) {
+      const current = params.details.outcomeTokens.find((d) => sameAddress(d.operator, operator));
+      if (current?.approved === true) continue;
+    }
+    txs.push({
+      to: CTF_CONTRACT_ADDRESS,
+      operation: OperationType.Call,
+      data: encodeFunctionData({
+        abi: ctfAbi,
+        functionName: "setApprovalForAll",
+        args: [operator, true],
+      }),
+      value: "0",
+    });
+  }
+
+  return { txs };
+}
+
+export function createRevokeAllApprovalTxs(): CreateApprovalTxsResult {
+  const txs: SafeTransaction[] = [];
+
+  for (const { address } of USDC_E_SPENDERS) {
+    txs.push({
+      to: USDC_E_CONTRACT_ADDRESS,
+      operation: OperationType.Call,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [address as HexAddress, 0n],
+      }),
+      value: "0",
+    });
+  }
+
+  for (const { address } of OUTCOME_TOKEN_SPENDERS) {
+    txs.push({
+      to: CTF_CONTRACT_ADDRESS,
+      operation: OperationType.Call,
+      data: encodeFunctionData({
+        abi: ctfAbi,
+        functionName: "setApprovalForAll",
+        args: [address as HexAddress, false],
+      }),
+      value: "0",
+    });
+  }
+
+  return { txs };
+}
+
+/**
+ * Built-in spenders plus any other spender / operator the policy names (reported by address).
+ */
+function approvalTargets(policy: ApprovalPolicy | undefined): {
+  usdc: Array<{ address: string; name: string }>;
+  operators: Array<{ address: string; name: string }>;
+} {
+  const usdc: Array<{ address: string; name: string }> = [...USDC_E_SPENDERS];
+  for (const { spender } of policy?.usdcSpenders ?? []) {
+    if (!usdc.some((s) => sameAddress(s.address, spender))) {
+      usdc.push({ address: spender, name: spender });
+    }
+  }
+  const operators: Array<{ address: string; name: string }> = [...OUTCOME_TOKEN_SPENDERS];
+  for (const operator of policy?.outcomeTokenOperators ?? []) {
+    if (!operators.some((s) => sameAddress(s.address, operator))) {
+      operators.push({ address: operator, name: operator });
+    }
+  }
+  return { usdc, operators };
+}
+
+/**
+ * Reads the exact USDC.e allowance and outcome token operator approval for every built-in
+ * spender and every spender / operator named by params.policy.
+ * A null value means the RPC read failed.
+ */
+export async function getApprovalDetails(params: {
   rpcUrl: string;
   safeAddress: HexAddress;
-  threshold?: bigint;
-}): Promise<ApprovalStatus> {
+  policy?: ApprovalPolicy;
+}): Promise<ApprovalDetails> {
   const publicClient = createPublicClient({
     chain: polygon,
     transport: http(params.rpcUrl),
   });
+  const targets = approvalTargets(params.policy);
 
-  const threshold = params.threshold ?? DEFAULT_USDC_APPROVAL_THRESHOLD;
-
-  const usdcApprovals: Record<string, boolean> = {};
-  const outcomeTokenApprovals: Record<string, boolean> = {};
-
-  await Promise.all(
-    USDC_E_SPENDERS.map(async ({ address, name }) => {
+  const usdc = await Promise.all(
+    targets.usdc.map(async ({ address, name }) => {
+      let allowance: bigint | null;
       try {
-        const allowance = await publicClient.readContract({
+        allowance = await publicClient.readContract({
           address: USDC_E_CONTRACT_ADDRESS,
           abi: erc20Abi,
           functionName: "allowance",
           args: [params.safeAddress, address as HexAddress],
         });
-        usdcApprovals[name] = allowance >= threshold;
       } catch {
-        usdcApprovals[name] = false;
+        allowance = null;
       }
+      return { name, spender: address as HexAddress, allowance };
     })
   );
 
-  await Promise.all(
-    OUTCOME_TOKEN_SPENDERS.map(async ({ address, name }) => {
+  const outcomeTokens = await Promise.all(
+    targets.operators.map(async ({ address, name }) => {
+      let approved: boolean | null;
       try {
-        const isApproved = await publicClient.readContract({
+        approved = await publicClient.readContract({
           address: CTF_CONTRACT_ADDRESS,
-          abi: erc1155Abi,
+          abi: ctfAbi,
           functionName: "isApprovedForAll",
           args: [params.safeAddress, address as HexAddress],
         });
-        outcomeTokenApprovals[name] = isApproved;
       } catch {
-        outcomeTokenApprovals[name] = false;
+        approved = null;
       }
+      return { name, operator: address as HexAddress, approved };
     })
   );
 
+  return { usdc, outcomeTokens };
+}
+
+export async function checkAllApprovals(params: {
+  rpcUrl: string;
+  safeAddress: HexAddress;
+  threshold?: bigint;
+}): Promise<ApprovalStatus> {
+  const threshold = params.threshold ?? DEFAULT_USDC_APPROVAL_THRESHOLD;
+  const details = await getApprovalDetails({
+    rpcUrl: params.rpcUrl,
+    safeAddress: params.safeAddress,
+  });
+
+  const usdcApprovals: Record<string, boolean> = {};
+  const outcomeTokenApprovals: Record<string, boolean> = {};
+
+  for (const { name, allowance } of details.usdc) {
+    usdcApprovals[name] = allowance !== null && allowance >= threshold;
+  }
+  for (const { name, approved } of details.outcomeTokens) {
+    outcomeTokenApprovals[name] = approved === true;
+  }
+
   const allApproved =
     Object.values(usdcApprovals).every(Boolean) &&
     Object.values(outcomeTokenApprovals).every(Boolean);
@@ -0,0 +1,57 @@
+import { createPublicClient, http } from "viem";
+import { polygon } from "viem/chains";
+
+import { ctfAbi } from "./abis.js";
+import { CTF_CONTRACT_ADDRESS } from "./tokens.js";
+import type { HexAddress } from "./types.js";
+
+const BALANCE_BATCH_SIZE = 100;
+
+/**
+ * Reads CTF outcome token balances directly from chain via ERC1155 balanceOf/balanceOfBatch.
+ * Returns raw uint256 balances (base units) keyed by the token IDs as given.
+ */
+export async function getCtfBalances(params: {
+  rpcUrl: string;
+  owner: HexAddress;
+  tokenIds: string[];
+  ctfAddress?: HexAddress;
+}): Promise<Record<string, bigint>> {
+  const tokenIds = Array.from(
+    new Set(params.tokenIds.map((t) => String(t).trim()).filter(Boolean))
+  );
+  const balances: Record<string, bigint> = {};
+  if (tokenIds.length === 0) return balances;
+
+  const publicClient = createPublicClient({
+    chain: polygon,
+    transport: http(params.rpcUrl),
+  });
+  const ctfAddress = (params.ctfAddress ?? CTF_CONTRACT_ADDRESS) as HexAddress;
+
+  if (tokenIds.length === 1) {
+    const tokenId = tokenIds[0]!;
+    balances[tokenId] = await publicClient.readContract({
+      address: ctfAddress,
+      abi: ctfAbi,
+      functionName: "balanceOf",
+      args: [params.owner, BigInt(tokenId)],
+    });
+    return balances;
+  }
+
+  for (let i = 0; i < tokenIds.length; i += BALANCE_BATCH_SIZE) {
+    const chunk = tokenIds.slice(i, i + BALANCE_BATCH_SIZE);
+    const result = await publicClient.readContract({
+      address: ctfAddress,
+      abi: ctfAbi,
+      functionName: "balanceOfBatch",
+      args: [chunk.map(() => params.owner), chunk.map((t) => BigInt(t))],
+    });
+    chunk.forEach((tokenId, idx) => {
+      balances[tokenId] = result[idx] ?? 0n;
+    });
+  }
+
+  return balances;
+}
@@ -1,4 +1,5 @@
-import type { ClobInsertErrorCode } from "./types.js";
+import { ApiHttpError } from "./errors.js";
+import type { ClobCancelErrorCode, ClobInsertErrorCode } from "./types.js";
 
 export function mapClobErrorMsgToCode(errorMsg: string | undefined | null): ClobInsertErrorCode | undefined {
   if (!errorMsg) return undefined;
@@ -20,3 +21,40 @@ export function mapClobErrorMsgToCode(errorMsg: string | undefined | null): Clob
 
   return "UNKNOWN";
 }
+
+export function mapClobCancelErrorMsgToCode(
+  errorMsg: string | undefined | null
+): ClobCancelErrorCode | undefined {
+  if (!errorMsg) return undefined;
+
+  const msg = errorMsg.trim().toLowerCase();
+
+  // e.g. "order can't be found - already canceled or matched": not found wins.
+  if (msg.includes("not found") || msg.includes("can't be found") || msg.includes("does not exist")) {
+    return "ORDER_NOT_FOUND";
+  }
+  if (msg.includes("already canceled") || msg.includes("already cancelled")) return "ORDER_ALREADY_CANCELED";
+  if (msg.includes("matched")) return "ORDER_ALREADY_MATCHED";
+  if (msg.includes("owner") || msg.includes("unauthorized") || msg.includes("not authorized")) {
+    return "NOT_ORDER_OWNER";
+  }
+
+  return "UNKNOWN";
+}
+
+/**
+ * ClobClient resolves HTTP failures to `{ error, status }` instead of throwing.
+ * Throws them as ApiHttpError and passes every other response through.
+ */
+export function assertClobResponse<T>(res: T, url: string): T {
+  const r = res as { error?: unknown; status?: unknown } | null;
+  if (r && typeof r === "object" && r.error !== undefined) {
+    throw new ApiHttpError({
+      service: "clob",
+      url,
+      status: typeof r.status === "number" ? r.status : 0,
+      body: r.error,
+    });
+  }
+  return res;
+}
@@ -5,7 +5,27 @@ export const DEFAULT_RELAYER_URL = "https://relayer-v2.polymarket.com/";
 export const GAMMA_API_URL = "https://gamma-api.polymarket.com";
 export const DATA_API_URL = "https://data-api.polymarket.com";
 
+export const OUTCOME_TOKEN_DECIMALS = 6;
+
 export const DEFAULT_USDC_APPROVAL_THRESHOLD = BigInt("1000000000000");
 
 export const MAX_UINT256 =
   "115792089237316195423570985008687907853269984665640564039457584007913129639935";
+
+export const DEFAULT_HTTP_TIMEOUT_MS = 15_000;
+
+/**
+ * Published Polymarket API rate limits (requests per 10s window).
+ * Keys are a host, or a host + path prefix for endpoint-specific limits.
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, { requests: number; intervalMs: number }> = {
+  "gamma-api.polymarket.com": { requests: 4000, intervalMs: 10_000 },
+  "gamma-api.polymarket.com/markets": { requests: 300, intervalMs: 10_000 },
+  "gamma-api.polymarket.com/events": { requests: 500, intervalMs: 10_000 },
+  "data-api.polymarket.com": { requests: 1000, intervalMs: 10_000 },
+  "data-api.polymarket.com/positions": { requests: 150, intervalMs: 10_000 },
+  "clob.polymarket.com": { requests: 9000, intervalMs: 10_000 },
+  "clob.polymarket.com/book": { requests: 1500, intervalMs: 10_000 },
+  "clob.polymarket.com/books": { requests: 500, intervalMs: 10_000 },
+  "clob.polymarket.com/price": { requests: 1500, intervalMs: 10_000 },
+};
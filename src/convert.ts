@@ -0,0 +1,30 @@
+import { encodeFunctionData } from "viem";
+import {
+  OperationType,
+  type SafeTransaction,
+} from "@polymarket/builder-relayer-client";
+import { negRiskAdapterAbi } from "./abis.js";
+import { NEG_RISK_ADAPTER_ADDRESS } from "./tokens.js";
+import type { ConvertPositionsParams, HexAddress } from "./types.js";
+
+/**
+ * Builds a SafeTransaction for NegRiskAdapter convertPositions.
+ * Note: indexSet is a bitmask over the market's question indices; amount is a raw uint256.
+ */
+export function createConvertPositionsTx(params: ConvertPositionsParams): SafeTransaction {
+  const adapterAddress = (params.negRiskAdapterAddress ??
+    NEG_RISK_ADAPTER_ADDRESS) as HexAddress;
+
+  const data = encodeFunctionData({
+    abi: negRiskAdapterAbi,
+    functionName: "convertPositions",
+    args: [params.marketId as `0x${string}`, params.indexSet, params.amount],
+  });
+
+  return {
+    to: adapterAddress,
+    operation: OperationType.Call,
+    data,
+    value: "0",
+  };
+}
@@ -0,0 +1,206 @@
+import { encodePacked, keccak256, toHex } from "viem";
+
+import { InvalidArgumentError } from "./errors.js";
+import {
+  NEG_RISK_WRAPPED_COLLATERAL_ADDRESS,
+  USDC_E_CONTRACT_ADDRESS,
+} from "./tokens.js";
+import type { HexAddress } from "./types.js";
+
+// alt_bn128 field modulus and curve constant (y^2 = x^3 + 3), as used by CTHelpers.
+const P = 21888242871839275222246405745257275088696311157297823662689037894645226208583n;
+const B = 3n;
+
+const ZERO_BYTES32 = ("0x" + "0".repeat(64)) as `0x${string}`;
+
+function mod(a: bigint): bigint {
+  const r = a % P;
+  return r < 0n ? r + P : r;
+}
+
+function modPow(base: bigint, exp: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint): bigint {
+  // P is prime.
+  return modPow(a, P - 2n);
+}
+
+// P ≡ 3 (mod 4), so sqrt(a) = a^((P + 1) / 4) when a is a quadratic residue.
+function sqrtModP(a: bigint): bigint {
+  return modPow(a, (P + 1n) / 4n);
+}
+
+function curveRhs(x: bigint): bigint {
+  return mod(x * x * x + B);
+}
+
+// Affine point addition on alt_bn128 (same result as the ecAdd precompile).
+function ecAdd(
+  x1: bigint,
+  y1: bigint,
+  x2: bigint,
+  y2: bigint
+): { x: bigint; y: bigint } {
+  if (x1 === 0n && y1 === 0n) return { x: x2, y: y2 };
+  if (x2 === 0n && y2 === 0n) return { x: x1, y: y1 };
+
+  let lambda: bigint;
+  if (x1 === x2) {
+    if (mod(y1 + y2) === 0n) return { x: 0n, y: 0n };
+    lambda = mod(3n * x1 * x1 * modInverse(2n * y1));
+  } else {
+    lambda = mod((y2 - y1) * modInverse(x2 - x1));
+  }
+
+  const x3 = mod(lambda * lambda - x1 - x2);
+  const y3 = mod(lambda * (x1 - x3) - y1);
+  return { x: x3, y: y3 };
+}
+
+function toBytes32(value: bigint): `0x${string}` {
+  return toHex(value, { size: 32 });
+}
+
+/**
+ * Matches CTF getConditionId: keccak256(oracle, questionId, outcomeSlotCount).
+ */
+export function getConditionId(params: {
+  oracle: HexAddress;
+  questionId: `0x${string}`;
+  outcomeSlotCount: number;
+}): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["address", "bytes32", "uint256"],
+      [params.oracle, params.questionId, BigInt(params.outcomeSlotCount)]
+    )
+  );
+}
+
+/**
+ * Matches CTF getCollectionId: hashes (conditionId, indexSet) onto alt_bn128 and adds
+ * the parent collection point when parentCollectionId is non-zero.
+ */
+export function getCollectionId(params: {
+  conditionId: string;
+  indexSet: bigint;
+  parentCollectionId?: `0x${string}`;
+}): `0x${string}` {
+  const hash = BigInt(
+    keccak256(
+      encodePacked(
+        ["bytes32", "uint256"],
+        [params.conditionId as `0x${string}`, params.indexSet]
+      )
+    )
+  );
+
+  let odd = hash >> 255n !== 0n;
+  let x1 = hash;
+  let y1: bigint;
+  let yy: bigint;
+  do {
+    x1 = mod(x1 + 1n);
+    yy = curveRhs(x1);
+    y1 = sqrtModP(yy);
+  } while ((y1 * y1) % P !== yy);
+  if ((odd && y1 % 2n === 0n) || (!odd && y1 % 2n === 1n)) {
+    y1 = P - y1;
+  }
+
+  let x2 = BigInt(params.parentCollectionId ?? ZERO_BYTES32);
+  if (x2 !== 0n) {
+    odd = x2 >> 254n !== 0n;
+    x2 = x2 & ((1n << 254n) - 1n);
+    yy = curveRhs(x2);
+    let y2 = sqrtModP(yy);
+    if ((odd && y2 % 2n === 0n) || (!odd && y2 % 2n === 1n)) {
+      y2 = P - y2;
+    }
+    if ((y2 * y2) % P !== yy) {
+      throw new InvalidArgumentError("invalid parent collection ID");
+    }
+
+    const sum = ecAdd(x1, y1, x2, y2);
+    x1 = sum.x;
+    y1 = sum.y;
+  }
+
+  if (y1 & 1n) {
+    x1 ^= 1n << 254n;
+  }
+
+  return toBytes32(x1);
+}
+
+/**
+ * Matches CTF getPositionId: uint256(keccak256(collateralToken, collectionId)).
+ */
+export function getPositionId(params: {
+  collectionId: `0x${string}`;
+  collateralToken?: HexAddress;
+}): bigint {
+  const collateralToken = (params.collateralToken ??
+    USDC_E_CONTRACT_ADDRESS) as HexAddress;
+  return BigInt(
+    keccak256(
+      encodePacked(["address", "bytes32"], [collateralToken, params.collectionId])
+    )
+  );
+}
+
+/**
+ * Derives the outcome token IDs (decimal strings, in outcome order) of a top-level condition.
+ * Neg-risk markets are collateralized by the NegRiskAdapter's wrapped collateral.
+ */
+export function getOutcomeTokenIds(params: {
+  conditionId: string;
+  outcomeSlotCount?: number;
+  negRisk?: boolean;
+  collateralToken?: HexAddress;
+}): string[] {
+  const outcomeSlotCount = params.outcomeSlotCount ?? 2;
+  const collateralToken = (params.collateralToken ??
+    (params.negRisk
+      ? NEG_RISK_WRAPPED_COLLATERAL_ADDRESS
+      : USDC_E_CONTRACT_ADDRESS)) as HexAddress;
+
+  const tokenIds: string[] = [];
+  for (let i = 0; i < outcomeSlotCount; i++) {
+    const collectionId = getCollectionId({
+      conditionId: params.conditionId,
+      indexSet: 1n << BigInt(i),
+    });
+    tokenIds.push(getPositionId({ collateralToken, collectionId }).toString());
+  }
+  return tokenIds;
+}
+
+/**
+ * Returns true when clobTokenIds (outcome order) are exactly the position IDs of conditionId.
+ */
+export function verifyClobTokenIds(params: {
+  conditionId: string;
+  clobTokenIds: string[];
+  negRisk?: boolean;
+}): boolean {
+  const expected = getOutcomeTokenIds({
+    conditionId: params.conditionId,
+    outcomeSlotCount: params.clobTokenIds.length,
+    ...(params.negRisk !== undefined ? { negRisk: params.negRisk } : {}),
+  });
+  return expected.every((tokenId, idx) => {
+    const actual = params.clobTokenIds[idx];
+    return actual !== undefined && BigInt(actual) === BigInt(tokenId);
+  });
+}
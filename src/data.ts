@@ -1,6 +1,14 @@
 import { GAMMA_API_URL, DATA_API_URL, DEFAULT_CLOB_API_URL } from "./constants.js";
-import { MissingDependencyError } from "./errors.js";
-import type { PolyCoreConfig } from "./types.js";
+import {
+  ApiHttpError,
+  InvalidArgumentError,
+  InvalidResponseError,
+  MarketNotFoundError,
+  MissingDependencyError,
+} from "./errors.js";
+import { RequestLayer } from "./http.js";
+import type { ApiService, PolyCoreConfig } from "./types.js";
+import { ResponseValidator, type ResponseSchema } from "./validation.js";
 
 export type PolymarketMarket = {
   id: string;
@@ -8,7 +16,9 @@ export type PolymarketMarket = {
   slug: string;
   active: boolean;
   closed: boolean;
+  conditionId?: string;
   clobTokenIds?: string;
+  outcomes?: string;
   outcomePrices?: string;
   liquidity?: string | number;
   volume?: string | number;
@@ -43,6 +53,57 @@ export type PolymarketMarketDetails = {
   [key: string]: any;
 };
 
+export type ClobMarketToken = {
+  token_id: string;
+  outcome: string;
+  price?: number;
+  winner?: boolean;
+};
+
+/**
+ * Market as returned by CLOB GET /markets/{condition_id}.
+ */
+export type ClobMarket = {
+  condition_id: string;
+  question_id?: string;
+  question: string;
+  market_slug?: string;
+  active: boolean;
+  closed: boolean;
+  accepting_orders?: boolean;
+  neg_risk?: boolean;
+  minimum_tick_size?: number;
+  minimum_order_size?: number;
+  tokens: ClobMarketToken[];
+  [key: string]: any;
+};
+
+/**
+ * Result of a token ID lookup: the market plus the token's position within it.
+ */
+export type TokenMarket = {
+  tokenId: string;
+  conditionId: string;
+  question: string;
+  /**
+   * Index of the token within the market's outcomes (0 = first outcome, e.g. "Yes").
+   */
+  outcomeIndex: number;
+  /**
+   * Outcome label, e.g. "Yes" / "No". Empty when the market does not list outcomes.
+   */
+  outcome: string;
+  source: "gamma" | "clob";
+  /**
+   * Gamma market (source "gamma").
+   */
+  market?: PolymarketMarket;
+  /**
+   * CLOB market (source "clob", used when Gamma does not know the token).
+   */
+  clobMarket?: ClobMarket;
+};
+
 export type PolymarketPosition = {
   proxyWallet: string;
   asset: string;
@@ -157,6 +218,56 @@ export type PolymarketEvent = {
   [key: string]: any;
 };
 
+type GammaListFilter = {
+  /**
+   * Gamma tag ID.
+   */
+  tagId?: number;
+  /**
+   * Include markets/events with tags related to tagId. Default: false
+   */
+  relatedTags?: boolean;
+  active?: boolean;
+  closed?: boolean;
+  archived?: boolean;
+  /**
+   * ISO date string or Date.
+   */
+  startDateMin?: string | Date;
+  startDateMax?: string | Date;
+  endDateMin?: string | Date;
+  endDateMax?: string | Date;
+  liquidityMin?: number;
+  liquidityMax?: number;
+  volumeMin?: number;
+  volumeMax?: number;
+  /**
+   * Gamma field to sort by, e.g. "volume24hr", "liquidity", "endDate".
+   */
+  order?: string;
+  ascending?: boolean;
+  /**
+   * Page size per request. Default: 100. Range: 1..500
+   */
+  pageSize?: number;
+  /**
+   * Stop after yielding this many items. Default: unlimited
+   */
+  maxItems?: number;
+};
+
+export type MarketFilter = GammaListFilter & {
+  conditionIds?: string[];
+  clobTokenIds?: string[];
+  slugs?: string[];
+};
+
+export type EventFilter = GammaListFilter & {
+  tagSlug?: string;
+  featured?: boolean;
+  slugs?: string[];
+};
+
 export type OrderBookSummaryRequestItem = {
   token_id: string;
 };
@@ -178,37 +289,281 @@ export type OrderBookSummary = {
   neg_risk: boolean;
 };
 
+const DEFAULT_GAMMA_PAGE_SIZE = 100;
+/**
+ * Token IDs per Gamma clob_token_ids query (keeps the URL well below common length limits).
+ */
+const TOKEN_LOOKUP_CHUNK_SIZE = 20;
+const MAX_GAMMA_PAGE_SIZE = 500;
+
+function toIsoDate(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Maps the shared Gamma filter fields onto query params. Only fields the caller sets are sent.
+ * Markets and events name the liquidity/volume bounds differently (numField).
+ */
+function gammaListParams(
+  filter: GammaListFilter,
+  numField: (base: "liquidity" | "volume", bound: "min" | "max") => string
+): URLSearchParams {
+  const qp = new URLSearchParams();
+  if (filter.tagId !== undefined) qp.set("tag_id", String(filter.tagId));
+  if (filter.relatedTags !== undefined) qp.set("related_tags", String(filter.relatedTags));
+  if (filter.active !== undefined) qp.set("active", String(filter.active));
+  if (filter.closed !== undefined) qp.set("closed", String(filter.closed));
+  if (filter.archived !== undefined) qp.set("archived", String(filter.archived));
+  if (filter.startDateMin !== undefined) qp.set("start_date_min", toIsoDate(filter.startDateMin));
+  if (filter.startDateMax !== undefined) qp.set("start_date_max", toIsoDate(filter.startDateMax));
+  if (filter.endDateMin !== undefined) qp.set("end_date_min", toIsoDate(filter.endDateMin));
+  if (filter.endDateMax !== undefined) qp.set("end_date_max", toIsoDate(filter.endDateMax));
+  if (filter.liquidityMin !== undefined) qp.set(numField("liquidity", "min"), String(filter.liquidityMin));
+  if (filter.liquidityMax !== undefined) qp.set(numField("liquidity", "max"), String(filter.liquidityMax));
+  if (filter.volumeMin !== undefined) qp.set(numField("volume", "min"), String(filter.volumeMin));
+  if (filter.volumeMax !== undefined) qp.set(numField("volume", "max"), String(filter.volumeMax));
+  if (filter.order !== undefined) qp.set("order", filter.order);
+  if (filter.ascending !== undefined) qp.set("ascending", String(filter.ascending));
+  return qp;
+}
+
+const marketSchema: ResponseSchema = {
+  id: { kind: "string", required: true },
+  question: { kind: "string", required: true },
+  slug: { kind: "string", required: true },
+  active: { kind: "boolean", required: true },
+  closed: { kind: "boolean", required: true },
+  conditionId: { kind: "string" },
+  clobTokenIds: { kind: "stringArrayJson" },
+  outcomes: { kind: "stringArrayJson" },
+  outcomePrices: { kind: "decimalArrayJson" },
+  liquidity: { kind: "numeric" },
+  volume: { kind: "numeric" },
+  volume24hr: { kind: "numeric" },
+  tags: { kind: "array" },
+  events: { kind: "array" },
+  acceptingOrders: { kind: "boolean" },
+};
+
+const marketDetailsSchema: ResponseSchema = {
+  id: { kind: "string", required: true },
+  question: { kind: "string", nullable: true },
+  conditionId: { kind: "string" },
+  slug: { kind: "string", nullable: true },
+  endDate: { kind: "string", nullable: true },
+  startDate: { kind: "string", nullable: true },
+  category: { kind: "string", nullable: true },
+  liquidity: { kind: "decimalString", nullable: true },
+  volume: { kind: "decimalString", nullable: true },
+  active: { kind: "boolean", nullable: true },
+  closed: { kind: "boolean", nullable: true },
+  clobTokenIds: { kind: "stringArrayJson", nullable: true },
+  outcomePrices: { kind: "decimalArrayJson", nullable: true },
+  acceptingOrders: { kind: "boolean", nullable: true },
+  enableOrderBook: { kind: "boolean", nullable: true },
+  orderPriceMinTickSize: { kind: "number", nullable: true },
+  orderMinSize: { kind: "number", nullable: true },
+  marketMakerAddress: { kind: "string" },
+  events: { kind: "array", nullable: true },
+  tags: { kind: "array", nullable: true },
+};
+
+const positionSchema: ResponseSchema = {
+  proxyWallet: { kind: "string", required: true },
+  asset: { kind: "string", required: true },
+  conditionId: { kind: "string", required: true },
+  size: { kind: "number", required: true },
+  avgPrice: { kind: "number", required: true },
+  currentValue: { kind: "number", required: true },
+  redeemable: { kind: "boolean", required: true },
+  mergeable: { kind: "boolean", required: true },
+  title: { kind: "string", required: true },
+  slug: { kind: "string", required: true },
+  outcome: { kind: "string", required: true },
+  outcomeIndex: { kind: "number", required: true },
+  endDate: { kind: "string", required: true },
+  negativeRisk: { kind: "boolean", required: true },
+};
+
+const nullableString: ResponseSchema[string] = { kind: "string", nullable: true };
+const nullableBoolean: ResponseSchema[string] = { kind: "boolean", nullable: true };
+const nullableNumber: ResponseSchema[string] = { kind: "number", nullable: true };
+
+const eventSchema: ResponseSchema = {
+  id: { kind: "string", required: true },
+  ticker: nullableString,
+  slug: nullableString,
+  title: nullableString,
+  subtitle: nullableString,
+  description: nullableString,
+  resolutionSource: nullableString,
+  startDate: nullableString,
+  creationDate: nullableString,
+  endDate: nullableString,
+  image: nullableString,
+  icon: nullableString,
+  active: nullableBoolean,
+  closed: nullableBoolean,
+  archived: nullableBoolean,
+  new: nullableBoolean,
+  featured: nullableBoolean,
+  restricted: nullableBoolean,
+  liquidity: nullableNumber,
+  volume: nullableNumber,
+  openInterest: nullableNumber,
+  category: nullableString,
+  subcategory: nullableString,
+  negRisk: nullableBoolean,
+  negRiskMarketID: nullableString,
+  negRiskFeeBips: nullableNumber,
+  commentCount: nullableNumber,
+  enableOrderBook: nullableBoolean,
+  markets: { kind: "array", nullable: true, items: marketDetailsSchema },
+  tags: { kind: "array", nullable: true },
+  chats: { kind: "array", nullable: true },
+  templates: { kind: "array", nullable: true },
+};
+
+const clobMarketTokenSchema: ResponseSchema = {
+  token_id: { kind: "string", required: true },
+  outcome: { kind: "string", required: true },
+  price: { kind: "number" },
+  winner: { kind: "boolean" },
+};
+
+const clobMarketSchema: ResponseSchema = {
+  condition_id: { kind: "string", required: true },
+  question_id: { kind: "string" },
+  question: { kind: "string", required: true },
+  market_slug: { kind: "string" },
+  active: { kind: "boolean", required: true },
+  closed: { kind: "boolean", required: true },
+  accepting_orders: { kind: "boolean" },
+  neg_risk: { kind: "boolean" },
+  minimum_tick_size: { kind: "number" },
+  minimum_order_size: { kind: "number" },
+  tokens: { kind: "array", required: true, items: clobMarketTokenSchema },
+};
+
+function parseJsonStringArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function tokenMarketFromGamma(tokenId: string, market: PolymarketMarket): TokenMarket | undefined {
+  const outcomeIndex = parseJsonStringArray(market.clobTokenIds).indexOf(tokenId);
+  if (outcomeIndex < 0) return undefined;
+  return {
+    tokenId,
+    conditionId: market.conditionId ?? "",
+    question: market.question,
+    outcomeIndex,
+    outcome: parseJsonStringArray(market.outcomes)[outcomeIndex] ?? "",
+    source: "gamma",
+    market,
+  };
+}
+
+function tokenMarketFromClob(tokenId: string, market: ClobMarket): TokenMarket | undefined {
+  const outcomeIndex = market.tokens.findIndex((t) => t.token_id === tokenId);
+  if (outcomeIndex < 0) return undefined;
+  return {
+    tokenId,
+    conditionId: market.condition_id,
+    question: market.question,
+    outcomeIndex,
+    outcome: market.tokens[outcomeIndex]?.outcome ?? "",
+    source: "clob",
+    clobMarket: market,
+  };
+}
+
+const orderBookLevelSchema: ResponseSchema = {
+  price: { kind: "decimalString", required: true },
+  size: { kind: "decimalString", required: true },
+};
+
+const orderBookSummarySchema: ResponseSchema = {
+  market: { kind: "string", required: true },
+  asset_id: { kind: "string", required: true },
+  timestamp: { kind: "string", required: true },
+  hash: { kind: "string", required: true },
+  bids: { kind: "array", required: true, items: orderBookLevelSchema },
+  asks: { kind: "array", required: true, items: orderBookLevelSchema },
+  min_order_size: { kind: "decimalString", required: true },
+  tick_size: { kind: "decimalString", required: true },
+  neg_risk: { kind: "boolean", required: true },
+};
+
 export class PolymarketDataClient {
   private readonly fetchFn: typeof fetch;
   private readonly clobApiUrl: string;
+  private readonly validator: ResponseValidator;
 
-  constructor(cfg: Pick<PolyCoreConfig, "fetchFn" | "clobApiUrl">) {
+  /**
+   * requestLayer: optional shared layer (e.g. the kit's) so rate limits are enforced across clients.
+   * Otherwise one is created from cfg.fetchFn + cfg.http.
+   */
+  constructor(
+    cfg: Pick<PolyCoreConfig, "fetchFn" | "clobApiUrl" | "http" | "validation">,
+    requestLayer?: RequestLayer
+  ) {
     const fetchImpl = cfg.fetchFn ?? globalThis.fetch;
-    if (!fetchImpl) {
+    if (!fetchImpl && !requestLayer) {
       throw new MissingDependencyError(
         "fetch is not available. Provide config.fetchFn."
       );
     }
-    this.fetchFn = fetchImpl;
+    const layer =
+      requestLayer ??
+      new RequestLayer({
+        fetchFn: fetchImpl,
+        ...(cfg.http ? { config: cfg.http } : {}),
+      });
+    this.fetchFn = layer.fetch;
     this.clobApiUrl = cfg.clobApiUrl ?? DEFAULT_CLOB_API_URL;
+    this.validator = new ResponseValidator(cfg.validation);
   }
 
-  async listHighVolumeMarkets(limit: number): Promise<PolymarketMarket[]> {
-    const fetchLimit = Math.max(1, Math.floor(limit)) * 5;
-
-    const res = await this.fetchFn(
-      `${GAMMA_API_URL}/markets?limit=${fetchLimit}&offset=0&active=true&closed=false&order=volume24hr&ascending=false`,
-      { headers: { "Content-Type": "application/json" } }
-    );
+  /**
+   * Fetches url and parses the JSON body.
+   * Throws ApiHttpError on non-2xx responses and InvalidResponseError on non-JSON bodies.
+   */
+  private async requestJson(
+    service: ApiService,
+    url: string,
+    init?: RequestInit
+  ): Promise<unknown> {
+    const res = await this.fetchFn(url, {
+      headers: { "Content-Type": "application/json" },
+      ...init,
+    });
 
     if (!res.ok) {
-      throw new Error(`Gamma API error: ${res.status}`);
+      throw await ApiHttpError.fromResponse(service, url, res);
     }
 
-    const markets = (await res.json()) as unknown;
-    if (!Array.isArray(markets)) {
-      throw new Error("Invalid Gamma API response");
+    try {
+      return (await res.json()) as unknown;
+    } catch {
+      throw new InvalidResponseError(`Invalid ${service} API response: body is not JSON`, service, url);
     }
+  }
+
+  async listHighVolumeMarkets(limit: number): Promise<PolymarketMarket[]> {
+    const fetchLimit = Math.max(1, Math.floor(limit)) * 5;
+
+    const url = `${GAMMA_API_URL}/markets?limit=${fetchLimit}&offset=0&active=true&closed=false&order=volume24hr&ascending=false`;
+    const markets = this.validator.validateArray<PolymarketMarket>(
+      await this.requestJson("gamma", url),
+      marketSchema,
+      { service: "gamma", url }
+    );
 
     const evergreenTags = [
       "crypto",
@@ -269,36 +624,156 @@ export class PolymarketDataClient {
     return sorted.slice(0, Math.max(0, Math.floor(limit))) as PolymarketMarket[];
   }
 
+  /**
+   * Gamma market of a CLOB token ID, including closed/resolved markets (Gamma's clob_token_ids filter).
+   * Throws MarketNotFoundError when Gamma does not know the token; see getTokenMarket for the CLOB fallback.
+   */
   async getMarketByTokenId(tokenId: string): Promise<PolymarketMarket> {
-    const res = await this.fetchFn(
-      `${GAMMA_API_URL}/markets?limit=100&offset=0&active=true&closed=false`,
-      { headers: { "Content-Type": "application/json" } }
-    );
+    const safeTokenId = String(tokenId).trim();
+    if (!safeTokenId) {
+      throw new InvalidArgumentError("tokenId is required");
+    }
 
-    if (!res.ok) {
-      throw new Error(`Gamma API error: ${res.status}`);
+    const found = (await this.findGammaTokenMarkets([safeTokenId]))[safeTokenId];
+    if (!found?.market) {
+      throw new MarketNotFoundError(safeTokenId);
     }
+    return found.market;
+  }
 
-    const markets = (await res.json()) as unknown;
-    if (!Array.isArray(markets)) {
-      throw new Error("Invalid Gamma API response");
+  /**
+   * Resolves a CLOB token ID to its market and outcome, including closed/resolved markets.
+   * Uses Gamma first, then the CLOB (see getTokenMarkets). Throws MarketNotFoundError when neither knows it.
+   */
+  async getTokenMarket(tokenId: string, options?: { conditionId?: string }): Promise<TokenMarket> {
+    const safeTokenId = String(tokenId).trim();
+    if (!safeTokenId) {
+      throw new InvalidArgumentError("tokenId is required");
     }
 
-    const market = (markets as any[]).find((m) => {
-      if (!m.clobTokenIds) return false;
-      try {
-        const tokenIds = JSON.parse(m.clobTokenIds);
-        return tokenIds.includes(tokenId);
-      } catch {
-        return false;
+    const found = (
+      await this.getTokenMarkets(
+        [safeTokenId],
+        options?.conditionId ? { conditionIds: [options.conditionId] } : undefined
+      )
+    )[safeTokenId];
+    if (!found) {
+      throw new MarketNotFoundError(safeTokenId);
+    }
+    return found;
+  }
+
+  /**
+   * Batch variant of getTokenMarket. Token IDs that cannot be resolved are omitted.
+   * Tokens Gamma does not know are looked up on the CLOB by condition: GET /markets/{condition_id}
+   * for options.conditionIds (e.g. from Data API positions; this also covers resolved markets),
+   * then for the remaining tokens the condition of their live order book (GET /book).
+   */
+  async getTokenMarkets(
+    tokenIds: string[],
+    options?: { conditionIds?: string[] }
+  ): Promise<Record<string, TokenMarket>> {
+    const out = await this.findGammaTokenMarkets(tokenIds);
+    const pending = new Set(
+      tokenIds.map((t) => String(t).trim()).filter((t) => t && !out[t])
+    );
+    if (pending.size === 0) return out;
+
+    const addClobMarket = (market: ClobMarket | undefined) => {
+      // One CLOB market covers every outcome token of the condition.
+      for (const token of market?.tokens ?? []) {
+        if (!pending.has(token.token_id)) continue;
+        const match = tokenMarketFromClob(token.token_id, market!);
+        if (!match) continue;
+        out[token.token_id] = match;
+        pending.delete(token.token_id);
       }
-    });
+    };
 
-    if (!market) {
-      throw new Error("Market not found");
+    const conditionIds = new Set((options?.conditionIds ?? []).map((c) => String(c).trim()));
+    for (const conditionId of conditionIds) {
+      if (pending.size === 0) break;
+      if (conditionId) addClobMarket(await this.getClobMarket(conditionId));
+    }
+    for (const tokenId of Array.from(pending)) {
+      if (!pending.has(tokenId)) continue;
+      const conditionId = await this.getBookConditionId(tokenId);
+      if (conditionId && !conditionIds.has(conditionId)) {
+        addClobMarket(await this.getClobMarket(conditionId));
+      }
     }
 
-    return market as PolymarketMarket;
+    return out;
+  }
+
+  /**
+   * Gamma clob_token_ids lookup in chunks. Gamma may hide closed markets unless asked explicitly,
+   * hence the closed=true second pass.
+   */
+  private async findGammaTokenMarkets(tokenIds: string[]): Promise<Record<string, TokenMarket>> {
+    const pending = new Set(tokenIds.map((t) => String(t).trim()).filter(Boolean));
+    const out: Record<string, TokenMarket> = {};
+
+    for (const closed of [undefined, true]) {
+      const ids = Array.from(pending);
+      for (let i = 0; i < ids.length; i += TOKEN_LOOKUP_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + TOKEN_LOOKUP_CHUNK_SIZE);
+        const markets = this.iterateMarkets({
+          clobTokenIds: chunk,
+          pageSize: MAX_GAMMA_PAGE_SIZE,
+          ...(closed !== undefined ? { closed } : {}),
+        });
+        for await (const market of markets) {
+          for (const tokenId of parseJsonStringArray(market.clobTokenIds)) {
+            if (!pending.has(tokenId)) continue;
+            const match = tokenMarketFromGamma(tokenId, market);
+            if (!match) continue;
+            out[tokenId] = match;
+            pending.delete(tokenId);
+          }
+        }
+      }
+      if (pending.size === 0) break;
+    }
+
+    return out;
+  }
+
+  /**
+   * CLOB GET /markets/{condition_id}; serves closed and resolved markets too.
+   * Returns undefined when the CLOB does not know the condition.
+   */
+  private async getClobMarket(conditionId: string): Promise<ClobMarket | undefined> {
+    const url = `${this.clobApiUrl}/markets/${encodeURIComponent(conditionId)}`;
+    let res: unknown;
+    try {
+      res = await this.requestJson("clob", url);
+    } catch (err) {
+      if (err instanceof ApiHttpError && err.status === 404) return undefined;
+      throw err;
+    }
+    return this.validator.validateObject<ClobMarket>(res, clobMarketSchema, {
+      service: "clob",
+      url,
+    });
+  }
+
+  /**
+   * Condition ID of a token's order book (GET /book). Only live books exist, so this returns
+   * undefined for closed/resolved markets.
+   */
+  private async getBookConditionId(tokenId: string): Promise<string | undefined> {
+    try {
+      const book = await this.requestJson(
+        "clob",
+        `${this.clobApiUrl}/book?token_id=${encodeURIComponent(tokenId)}`
+      );
+      const market = (book as { market?: unknown } | null)?.market;
+      return typeof market === "string" && market ? market : undefined;
+    } catch (err) {
+      if (err instanceof ApiHttpError && err.status === 404) return undefined;
+      throw err;
+    }
   }
 
   async getMarketBySlug(
@@ -307,7 +782,7 @@ export class PolymarketDataClient {
   ): Promise<PolymarketMarketDetails> {
     const safeSlug = String(slug).trim();
     if (!safeSlug) {
-      throw new Error("slug is required");
+      throw new InvalidArgumentError("slug is required");
     }
 
     const params = new URLSearchParams();
@@ -316,23 +791,14 @@ export class PolymarketDataClient {
     }
     const qs = params.toString();
 
-    const res = await this.fetchFn(
-      `${GAMMA_API_URL}/markets/slug/${encodeURIComponent(safeSlug)}${
-        qs ? `?${qs}` : ""
-      }`,
-      { headers: { "Content-Type": "application/json" } }
+    const url = `${GAMMA_API_URL}/markets/slug/${encodeURIComponent(safeSlug)}${
+      qs ? `?${qs}` : ""
+    }`;
+    return this.validator.validateObject<PolymarketMarketDetails>(
+      await this.requestJson("gamma", url),
+      marketDetailsSchema,
+      { service: "gamma", url }
     );
-
-    if (!res.ok) {
-      throw new Error(`Gamma API error: ${res.status}`);
-    }
-
-    const json = (await res.json()) as unknown;
-    if (!json || typeof json !== "object") {
-      throw new Error("Invalid Gamma API response");
-    }
-
-    return json as PolymarketMarketDetails;
   }
 
   async getPositions(user: string): Promise<PolymarketPosition[]>;
@@ -350,11 +816,11 @@ export class PolymarketDataClient {
 
     const user = String(p.user).trim();
     if (!user) {
-      throw new Error("user is required");
+      throw new InvalidArgumentError("user is required");
     }
 
     if (p.market?.length && p.eventId?.length) {
-      throw new Error("market and eventId are mutually exclusive");
+      throw new InvalidArgumentError("market and eventId are mutually exclusive");
     }
 
     const qp = new URLSearchParams();
@@ -398,15 +864,69 @@ export class PolymarketDataClient {
       qp.set("title", String(p.title));
     }
 
-    const res = await this.fetchFn(`${DATA_API_URL}/positions?${qp}`, {
-      headers: { "Content-Type": "application/json" },
-    });
+    const url = `${DATA_API_URL}/positions?${qp}`;
+    return this.validator.validateArray<PolymarketPosition>(
+      await this.requestJson("data-api", url),
+      positionSchema,
+      { service: "data-api", url }
+    );
+  }
 
-    if (!res.ok) {
-      throw new Error(`Polymarket API error: ${res.status}`);
-    }
+  /**
+   * Walks every Gamma market matching filter, following offset pagination.
+   * Filters are applied server-side.
+   */
+  async *iterateMarkets(filter: MarketFilter = {}): AsyncGenerator<PolymarketMarket> {
+    const qp = gammaListParams(filter, (base, bound) => `${base}_num_${bound}`);
+    for (const id of filter.conditionIds ?? []) qp.append("condition_ids", id);
+    for (const id of filter.clobTokenIds ?? []) qp.append("clob_token_ids", id);
+    for (const slug of filter.slugs ?? []) qp.append("slug", slug);
+
+    yield* this.paginateGamma<PolymarketMarket>("markets", qp, marketSchema, filter);
+  }
 
-    return (await res.json()) as PolymarketPosition[];
+  /**
+   * Walks every Gamma event matching filter, following offset pagination.
+   * Filters are applied server-side.
+   */
+  async *iterateEvents(filter: EventFilter = {}): AsyncGenerator<PolymarketEvent> {
+    const qp = gammaListParams(filter, (base, bound) => `${base}_${bound}`);
+    if (filter.tagSlug !== undefined) qp.set("tag_slug", filter.tagSlug);
+    if (filter.featured !== undefined) qp.set("featured", String(filter.featured));
+    for (const slug of filter.slugs ?? []) qp.append("slug", slug);
+
+    yield* this.paginateGamma<PolymarketEvent>("events", qp, eventSchema, filter);
+  }
+
+  private async *paginateGamma<T>(
+    resource: "markets" | "events",
+    qp: URLSearchParams,
+    schema: ResponseSchema,
+    filter: Pick<GammaListFilter, "pageSize" | "maxItems">
+  ): AsyncGenerator<T> {
+    const pageSize = Math.min(
+      MAX_GAMMA_PAGE_SIZE,
+      Math.max(1, Math.floor(filter.pageSize ?? DEFAULT_GAMMA_PAGE_SIZE))
+    );
+    const maxItems = filter.maxItems ?? Infinity;
+    if (maxItems <= 0) return;
+
+    let yielded = 0;
+    for (let offset = 0; ; offset += pageSize) {
+      qp.set("limit", String(pageSize));
+      qp.set("offset", String(offset));
+      const url = `${GAMMA_API_URL}/${resource}?${qp}`;
+      const json = await this.requestJson("gamma", url);
+      const page = this.validator.validateArray<T>(json, schema, { service: "gamma", url });
+
+      for (const item of page) {
+        yield item;
+        if (++yielded >= maxItems) return;
+      }
+
+      // Raw length: lenient validation may have dropped malformed entries.
+      if ((json as unknown[]).length < pageSize) return;
+    }
   }
 
   async getEventBySlug(
@@ -415,7 +935,7 @@ export class PolymarketDataClient {
   ): Promise<PolymarketEvent> {
     const safeSlug = String(slug).trim();
     if (!safeSlug) {
-      throw new Error("slug is required");
+      throw new InvalidArgumentError("slug is required");
     }
 
     const params = new URLSearchParams();
@@ -427,23 +947,14 @@ export class PolymarketDataClient {
     }
     const qs = params.toString();
 
-    const res = await this.fetchFn(
-      `${GAMMA_API_URL}/events/slug/${encodeURIComponent(safeSlug)}${
-        qs ? `?${qs}` : ""
-      }`,
-      { headers: { "Content-Type": "application/json" } }
+    const url = `${GAMMA_API_URL}/events/slug/${encodeURIComponent(safeSlug)}${
+      qs ? `?${qs}` : ""
+    }`;
+    return this.validator.validateObject<PolymarketEvent>(
+      await this.requestJson("gamma", url),
+      eventSchema,
+      { service: "gamma", url }
     );
-
-    if (!res.ok) {
-      throw new Error(`Gamma API error: ${res.status}`);
-    }
-
-    const json = (await res.json()) as unknown;
-    if (!json || typeof json !== "object") {
-      throw new Error("Invalid Gamma API response");
-    }
-
-    return json as PolymarketEvent;
   }
 
   /**
@@ -459,21 +970,14 @@ export class PolymarketDataClient {
       token_id: tokenId,
     }));
 
-    const res = await this.fetchFn(`${this.clobApiUrl}/books`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!res.ok) {
-      throw new Error(`CLOB API error: ${res.status}`);
-    }
-
-    const json = (await res.json()) as unknown;
-    if (!Array.isArray(json)) {
-      throw new Error("Invalid CLOB API response");
-    }
-
-    return json as OrderBookSummary[];
+    const url = `${this.clobApiUrl}/books`;
+    return this.validator.validateArray<OrderBookSummary>(
+      await this.requestJson("clob", url, {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+      orderBookSummarySchema,
+      { service: "clob", url }
+    );
   }
 }
@@ -0,0 +1,264 @@
+import type { SafeTransaction } from "@polymarket/builder-relayer-client";
+import { getContractConfig } from "@polymarket/builder-relayer-client/dist/config/index.js";
+import {
+  decodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  hexToBigInt,
+  hexToNumber,
+  size,
+  slice,
+} from "viem";
+
+import { ctfAbi, multisendAbi, negRiskAdapterAbi } from "./abis.js";
+import { DEFAULT_CHAIN_ID, MAX_UINT256, OUTCOME_TOKEN_DECIMALS } from "./constants.js";
+import {
+  CTF_CONTRACT_ADDRESS,
+  CTF_EXCHANGE_ADDRESS,
+  NEG_RISK_ADAPTER_ADDRESS,
+  NEG_RISK_CTF_EXCHANGE_ADDRESS,
+  NEG_RISK_WRAPPED_COLLATERAL_ADDRESS,
+  USDC_E_CONTRACT_ADDRESS,
+} from "./tokens.js";
+import type { HexAddress, SafeTransactionDescription } from "./types.js";
+
+const USDC_E_DECIMALS = 6;
+
+type DecodedCall = {
+  functionName: string;
+  args: Record<string, unknown>;
+  summary: string;
+};
+
+const KNOWN_CONTRACT_NAMES: Record<string, string> = {
+  [USDC_E_CONTRACT_ADDRESS.toLowerCase()]: "USDC.e",
+  [CTF_CONTRACT_ADDRESS.toLowerCase()]: "CTF Contract",
+  [CTF_EXCHANGE_ADDRESS.toLowerCase()]: "CTF Exchange",
+  [NEG_RISK_CTF_EXCHANGE_ADDRESS.toLowerCase()]: "Neg Risk CTF Exchange",
+  [NEG_RISK_ADAPTER_ADDRESS.toLowerCase()]: "Neg Risk Adapter",
+  [NEG_RISK_WRAPPED_COLLATERAL_ADDRESS.toLowerCase()]: "Neg Risk Wrapped Collateral",
+};
+
+function nameOf(address: string): string | undefined {
+  return KNOWN_CONTRACT_NAMES[address.toLowerCase()];
+}
+
+function labelOf(address: string): string {
+  return nameOf(address) ?? address;
+}
+
+function shortHex(hex: string): string {
+  return hex.length > 14 ? `${hex.slice(0, 6)}…${hex.slice(-4)}` : hex;
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  const [whole, frac = ""] = formatUnits(amount, decimals).split(".");
+  return `${whole}.${frac.padEnd(2, "0")}`;
+}
+
+function formatIndexSets(sets: readonly bigint[]): string {
+  return `[${sets.map((s) => s.toString()).join(",")}]`;
+}
+
+function questionIndices(indexSet: bigint): number[] {
+  const out: number[] = [];
+  for (let i = 0; indexSet >> BigInt(i) > 0n; i++) {
+    if ((indexSet >> BigInt(i)) & 1n) out.push(i);
+  }
+  return out;
+}
+
+/**
+ * Unpacks MultiSend `transactions` bytes (operation, to, value, dataLength, data).
+ */
+function unpackMultisend(packed: `0x${string}`): SafeTransaction[] {
+  const txs: SafeTransaction[] = [];
+  const total = size(packed);
+  let offset = 0;
+  while (offset < total) {
+    const operation = hexToNumber(slice(packed, offset, offset + 1));
+    const to = getAddress(slice(packed, offset + 1, offset + 21));
+    const value = hexToBigInt(slice(packed, offset + 21, offset + 53));
+    const dataLength = Number(hexToBigInt(slice(packed, offset + 53, offset + 85)));
+    const data =
+      dataLength > 0 ? slice(packed, offset + 85, offset + 85 + dataLength) : "0x";
+    txs.push({ to, operation, value: value.toString(), data });
+    offset += 85 + dataLength;
+  }
+  return txs;
+}
+
+function rawDescription(tx: SafeTransaction, summary?: string): SafeTransactionDescription {
+  const out: SafeTransactionDescription = {
+    to: tx.to as HexAddress,
+    operation: Number(tx.operation),
+    value: tx.value,
+    data: tx.data as `0x${string}`,
+    recognized: false,
+    summary:
+      summary ??
+      `Call ${labelOf(tx.to)} with ${Math.max(0, size(tx.data as `0x${string}`))} bytes of calldata`,
+  };
+  const targetName = nameOf(tx.to);
+  if (targetName) out.targetName = targetName;
+  return out;
+}
+
+function describeUsdcCall(tx: SafeTransaction): DecodedCall | undefined {
+  const { functionName, args } = decodeFunctionData({
+    abi: erc20Abi,
+    data: tx.data as `0x${string}`,
+  });
+
+  if (functionName === "approve") {
+    const [spender, amount] = args;
+    const summary =
+      amount === 0n
+        ? `Revoke ${labelOf(spender)} USDC.e allowance`
+        : `Approve ${labelOf(spender)} to spend ${
+            amount === BigInt(MAX_UINT256) ? "unlimited" : formatAmount(amount, USDC_E_DECIMALS)
+          } USDC.e`;
+    return { functionName, args: { spender, amount }, summary };
+  }
+  if (functionName === "transfer") {
+    const [to, amount] = args;
+    return {
+      functionName,
+      args: { to, amount },
+      summary: `Transfer ${formatAmount(amount, USDC_E_DECIMALS)} USDC.e to ${to}`,
+    };
+  }
+  return undefined;
+}
+
+function describeCtfCall(tx: SafeTransaction): DecodedCall | undefined {
+  const decoded = decodeFunctionData({ abi: ctfAbi, data: tx.data as `0x${string}` });
+
+  switch (decoded.functionName) {
+    case "setApprovalForAll": {
+      const [operator, approved] = decoded.args;
+      return {
+        functionName: decoded.functionName,
+        args: { operator, approved },
+        summary: approved
+          ? `Approve ${labelOf(operator)} to transfer outcome tokens`
+          : `Revoke ${labelOf(operator)} outcome token approval`,
+      };
+    }
+    case "splitPosition":
+    case "mergePositions": {
+      const [collateralToken, parentCollectionId, conditionId, partition, amount] = decoded.args;
+      const collateral = labelOf(collateralToken);
+      const summary =
+        decoded.functionName === "splitPosition"
+          ? `Split ${formatAmount(amount, USDC_E_DECIMALS)} ${collateral} on condition ${shortHex(conditionId)} into ${formatIndexSets(partition)}`
+          : `Merge ${formatAmount(amount, OUTCOME_TOKEN_DECIMALS)} sets ${formatIndexSets(partition)} on condition ${shortHex(conditionId)} into ${collateral}`;
+      return {
+        functionName: decoded.functionName,
+        args: { collateralToken, parentCollectionId, conditionId, partition, amount },
+        summary,
+      };
+    }
+    case "redeemPositions": {
+      const [collateralToken, parentCollectionId, conditionId, indexSets] = decoded.args;
+      return {
+        functionName: decoded.functionName,
+        args: { collateralToken, parentCollectionId, conditionId, indexSets },
+        summary: `Redeem index sets ${formatIndexSets(indexSets)} on condition ${shortHex(conditionId)} for ${labelOf(collateralToken)}`,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function describeNegRiskAdapterCall(tx: SafeTransaction): DecodedCall | undefined {
+  const decoded = decodeFunctionData({
+    abi: negRiskAdapterAbi,
+    data: tx.data as `0x${string}`,
+  });
+
+  switch (decoded.functionName) {
+    case "redeemPositions": {
+      const [conditionId, amounts] = decoded.args;
+      return {
+        functionName: decoded.functionName,
+        args: { conditionId, amounts },
+        summary: `Redeem neg-risk positions on condition ${shortHex(conditionId)} (amounts [${amounts
+          .map((a) => formatAmount(a, OUTCOME_TOKEN_DECIMALS))
+          .join(", ")}])`,
+      };
+    }
+    case "mergePositions": {
+      const [conditionId, amount] = decoded.args;
+      return {
+        functionName: decoded.functionName,
+        args: { conditionId, amount },
+        summary: `Merge ${formatAmount(amount, OUTCOME_TOKEN_DECIMALS)} neg-risk sets on condition ${shortHex(conditionId)} into USDC.e`,
+      };
+    }
+    case "convertPositions": {
+      const [marketId, indexSet, amount] = decoded.args;
+      return {
+        functionName: decoded.functionName,
+        args: { marketId, indexSet, amount },
+        summary: `Convert ${formatAmount(amount, OUTCOME_TOKEN_DECIMALS)} NO shares of questions [${questionIndices(
+          indexSet
+        ).join(",")}] on neg-risk market ${shortHex(marketId)}`,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decodes a SafeTransaction built by this package into a human-readable summary.
+ * MultiSend batches are expanded into `calls`. Unknown targets or selectors fall back
+ * to a raw view (recognized=false).
+ */
+export function describeSafeTransaction(
+  tx: SafeTransaction,
+  options?: { chainId?: number }
+): SafeTransactionDescription {
+  const to = tx.to.toLowerCase();
+  const multisend = getContractConfig(
+    options?.chainId ?? DEFAULT_CHAIN_ID
+  ).SafeContracts.SafeMultisend.toLowerCase();
+
+  try {
+    if (to === multisend) {
+      const decoded = decodeFunctionData({ abi: multisendAbi, data: tx.data as `0x${string}` });
+      const calls = describeBatch(unpackMultisend(decoded.args[0]), options);
+      return {
+        ...rawDescription(tx),
+        targetName: "MultiSend",
+        recognized: true,
+        functionName: decoded.functionName,
+        summary: `Batch of ${calls.length} call(s): ${calls.map((c) => c.summary).join("; ")}`,
+        calls,
+      };
+    }
+
+    let decoded: DecodedCall | undefined;
+    if (to === USDC_E_CONTRACT_ADDRESS.toLowerCase()) decoded = describeUsdcCall(tx);
+    else if (to === CTF_CONTRACT_ADDRESS.toLowerCase()) decoded = describeCtfCall(tx);
+    else if (to === NEG_RISK_ADAPTER_ADDRESS.toLowerCase()) decoded = describeNegRiskAdapterCall(tx);
+
+    if (decoded) {
+      return { ...rawDescription(tx), ...decoded, recognized: true };
+    }
+  } catch {
+    // Unknown selector or malformed calldata: fall through to the raw view.
+  }
+
+  return rawDescription(tx);
+}
+
+export function describeBatch(
+  txs: SafeTransaction[],
+  options?: { chainId?: number }
+): SafeTransactionDescription[] {
+  return txs.map((tx) => describeSafeTransaction(tx, options));
+}
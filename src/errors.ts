@@ -1,3 +1,5 @@
+import type { ApiService, RelayExecutionResult, SimulationResult } from "./types.js";
+
 export class PolyCoreError extends Error {
   override name = "PolyCoreError";
 }
@@ -10,6 +12,130 @@ export class InvalidConfigError extends PolyCoreError {
   override name = "InvalidConfigError";
 }
 
+/**
+ * A method was called with missing or inconsistent parameters.
+ */
+export class InvalidArgumentError extends PolyCoreError {
+  override name = "InvalidArgumentError";
+}
+
 export class NotInitializedError extends PolyCoreError {
   override name = "NotInitializedError";
 }
+
+export class RequestTimeoutError extends PolyCoreError {
+  override name = "RequestTimeoutError";
+}
+
+export class SimulationFailedError extends PolyCoreError {
+  override name = "SimulationFailedError";
+
+  constructor(message: string, readonly simulation: SimulationResult) {
+    super(message);
+  }
+}
+
+export class ApiHttpError extends PolyCoreError {
+  override name = "ApiHttpError";
+  readonly service: ApiService;
+  readonly url: string;
+  readonly status: number;
+  /**
+   * Response body, JSON-parsed when possible, otherwise the raw text.
+   */
+  readonly body: unknown;
+  /**
+   * True for 429 and 5xx responses (and when status is unknown, i.e. 0).
+   */
+  readonly retryable: boolean;
+
+  constructor(params: {
+    service: ApiService;
+    url: string;
+    status: number;
+    body?: unknown;
+    retryable?: boolean;
+    message?: string;
+  }) {
+    super(params.message ?? `${params.service} API error: ${params.status} (${params.url})`);
+    this.service = params.service;
+    this.url = params.url;
+    this.status = params.status;
+    this.body = params.body;
+    this.retryable =
+      params.retryable ??
+      (params.status === 0 || params.status === 429 || params.status >= 500);
+  }
+
+  /**
+   * Builds the error from a non-ok fetch Response, reading its body.
+   */
+  static async fromResponse(
+    service: ApiService,
+    url: string,
+    res: Response
+  ): Promise<ApiHttpError> {
+    let body: unknown;
+    try {
+      const text = await res.text();
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    } catch {
+      body = undefined;
+    }
+    return new ApiHttpError({ service, url, status: res.status, body });
+  }
+}
+
+export class InvalidResponseError extends PolyCoreError {
+  override name = "InvalidResponseError";
+
+  constructor(
+    message: string,
+    readonly service: ApiService,
+    readonly url?: string,
+    /**
+     * Path of the field that failed validation, e.g. "[3].clobTokenIds".
+     */
+    readonly field?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A Safe transaction could not be submitted, failed on-chain, or did not finish within the wait
+ * timeout. For timeouts, execution.handle can still be used to keep following the transaction.
+ */
+export class RelayExecutionError extends PolyCoreError {
+  override name = "RelayExecutionError";
+
+  constructor(
+    message: string,
+    readonly transactionId?: string,
+    readonly state?: string,
+    readonly execution?: RelayExecutionResult,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+export class SafeNotDeployedError extends PolyCoreError {
+  override name = "SafeNotDeployedError";
+
+  constructor(readonly safeAddress: string) {
+    super(`Safe is not deployed: ${safeAddress}`);
+  }
+}
+
+export class MarketNotFoundError extends PolyCoreError {
+  override name = "MarketNotFoundError";
+
+  constructor(readonly tokenId: string) {
+    super(`Market not found for token ${tokenId}`);
+  }
+}
@@ -0,0 +1,329 @@
+import type { RelayClient, SafeTransaction } from "@polymarket/builder-relayer-client";
+import { aggregateTransaction } from "@polymarket/builder-relayer-client/dist/builder/safe.js";
+import { getContractConfig } from "@polymarket/builder-relayer-client/dist/config/index.js";
+import { splitAndPackSig } from "@polymarket/builder-relayer-client/dist/utils/index.js";
+import { providers, utils, type Signer } from "ethers";
+import {
+  createPublicClient,
+  encodeFunctionData,
+  hashTypedData,
+  http,
+  zeroAddress,
+} from "viem";
+import { polygon } from "viem/chains";
+
+import { InvalidArgumentError, InvalidConfigError } from "./errors.js";
+import type {
+  ExecutionBackend,
+  ExecutionResponse,
+  ExecutionStateTransition,
+  ExecutionWaitOptions,
+  HexAddress,
+  RelayExecutionHandle,
+  RelayExecutionResult,
+} from "./types.js";
+
+// Same bound as the relayer client's own wait (30 polls, 2s apart).
+const DEFAULT_WAIT_TIMEOUT_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+const SUCCESS_STATES = ["STATE_MINED", "STATE_CONFIRMED"];
+const FAILURE_STATES = ["STATE_FAILED", "STATE_INVALID"];
+
+const safeAbi = [
+  {
+    inputs: [],
+    name: "nonce",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+      { name: "operation", type: "uint8" },
+      { name: "safeTxGas", type: "uint256" },
+      { name: "baseGas", type: "uint256" },
+      { name: "gasPrice", type: "uint256" },
+      { name: "gasToken", type: "address" },
+      { name: "refundReceiver", type: "address" },
+      { name: "signatures", type: "bytes" },
+    ],
+    name: "execTransaction",
+    outputs: [{ name: "success", type: "bool" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const safeTxTypes = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Executes Safe transactions through the Polymarket relayer (gasless).
+ */
+export class RelayerExecutionBackend implements ExecutionBackend {
+  constructor(private readonly relayClient: RelayClient) {}
+
+  async execute(txs: SafeTransaction[], metadata?: string): Promise<ExecutionResponse> {
+    return await this.relayClient.execute(txs, metadata);
+  }
+}
+
+/**
+ * Executes Safe transactions directly: the EOA signs a Safe execTransaction
+ * (MultiSend for batches) and submits it itself, paying gas in POL.
+ * Requires the EOA to be the sole owner of a 1-of-1 Safe.
+ */
+export class DirectSafeExecutionBackend implements ExecutionBackend {
+  private readonly rpcUrl: string;
+  private readonly chainId: number;
+  private readonly signer: Signer;
+  private readonly safeAddress: HexAddress;
+  private readonly multisendAddress: HexAddress;
+
+  constructor(params: {
+    rpcUrl: string;
+    chainId: number;
+    signer: Signer;
+    safeAddress: HexAddress;
+    multisendAddress?: HexAddress;
+  }) {
+    this.rpcUrl = params.rpcUrl;
+    this.chainId = params.chainId;
+    this.signer = params.signer;
+    this.safeAddress = params.safeAddress;
+    this.multisendAddress = (params.multisendAddress ??
+      getContractConfig(params.chainId).SafeContracts.SafeMultisend) as HexAddress;
+  }
+
+  async execute(txs: SafeTransaction[], _metadata?: string): Promise<ExecutionResponse> {
+    if (txs.length === 0) {
+      throw new InvalidArgumentError("No transactions to execute");
+    }
+
+    const publicClient = createPublicClient({
+      chain: polygon,
+      transport: http(this.rpcUrl),
+    });
+
+    const tx = aggregateTransaction(txs, this.multisendAddress);
+    const nonce = await publicClient.readContract({
+      address: this.safeAddress,
+      abi: safeAbi,
+      functionName: "nonce",
+    });
+
+    const message = {
+      to: tx.to as HexAddress,
+      value: BigInt(tx.value),
+      data: tx.data as `0x${string}`,
+      operation: Number(tx.operation),
+      safeTxGas: 0n,
+      baseGas: 0n,
+      gasPrice: 0n,
+      gasToken: zeroAddress,
+      refundReceiver: zeroAddress,
+      nonce,
+    };
+    const safeTxHash = hashTypedData({
+      domain: { chainId: this.chainId, verifyingContract: this.safeAddress },
+      types: safeTxTypes,
+      primaryType: "SafeTx",
+      message,
+    });
+
+    // eth_sign style signature; splitAndPackSig shifts v by 4 as the Safe expects.
+    const rawSig = await this.signer.signMessage(utils.arrayify(safeTxHash));
+    const signatures = splitAndPackSig(rawSig) as `0x${string}`;
+
+    const data = encodeFunctionData({
+      abi: safeAbi,
+      functionName: "execTransaction",
+      args: [
+        message.to,
+        message.value,
+        message.data,
+        message.operation,
+        message.safeTxGas,
+        message.baseGas,
+        message.gasPrice,
+        message.gasToken,
+        message.refundReceiver,
+        signatures,
+      ],
+    });
+
+    const sender = this.connectSigner();
+    const sent = await sender.sendTransaction({ to: this.safeAddress, data });
+
+    return {
+      transactionID: sent.hash,
+      state: "STATE_NEW",
+      getTransaction: async () => {
+        const receipt = await sender.provider?.getTransactionReceipt(sent.hash);
+        if (!receipt) return [{ state: "STATE_NEW", transactionHash: sent.hash }];
+        return [
+          {
+            state: receipt.status === 1 ? "STATE_MINED" : "STATE_FAILED",
+            transactionHash: receipt.transactionHash,
+          },
+        ];
+      },
+      wait: async () => {
+        try {
+          const receipt = await sent.wait();
+          return receipt.status === 1 ? { transactionHash: receipt.transactionHash } : undefined;
+        } catch (err: any) {
+          // ethers throws CALL_EXCEPTION when the transaction is mined but reverted.
+          if (err?.code === utils.Logger.errors.CALL_EXCEPTION) return undefined;
+          throw err;
+        }
+      },
+    };
+  }
+
+  private connectSigner(): Signer {
+    try {
+      return this.signer.connect(new providers.JsonRpcProvider(this.rpcUrl, this.chainId));
+    } catch {
+      // Browser signers (JsonRpcSigner) cannot be re-connected; use their own provider.
+      if (!this.signer.provider) {
+        throw new InvalidConfigError("Signer has no provider to send the Safe transaction");
+      }
+      return this.signer;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Follows an ExecutionResponse through its states (via getTransaction when the backend
+ * provides it, otherwise via wait()) and reports them as a RelayExecutionResult.
+ */
+export class ExecutionTracker implements RelayExecutionHandle {
+  readonly transactionId: string;
+
+  private state: string;
+  private transactionHash: string | undefined;
+  private gasUsed: bigint | undefined;
+  private readonly stateTransitions: ExecutionStateTransition[] = [];
+  private onStateChange: ExecutionWaitOptions["onStateChange"];
+
+  constructor(
+    private readonly response: ExecutionResponse,
+    private readonly rpcUrl: string,
+    options?: Pick<ExecutionWaitOptions, "onStateChange">
+  ) {
+    this.transactionId = response.transactionID;
+    this.state = "";
+    this.onStateChange = options?.onStateChange;
+    this.record(response.state ?? "STATE_NEW", undefined);
+  }
+
+  async poll(): Promise<RelayExecutionResult> {
+    if (this.response.getTransaction) {
+      const [latest] = await this.response.getTransaction();
+      if (latest) this.record(latest.state, latest.transactionHash);
+    }
+    return await this.result(false);
+  }
+
+  async wait(options?: ExecutionWaitOptions): Promise<RelayExecutionResult> {
+    if (options?.onStateChange) this.onStateChange = options.onStateChange;
+    const timeoutMs = options?.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const pollIntervalMs = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    if (!this.response.getTransaction) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<"timeout">((resolve) => {
+        timer = setTimeout(() => resolve("timeout"), timeoutMs);
+      });
+      try {
+        const mined = await Promise.race([this.response.wait(), timeout]);
+        if (mined === "timeout") return await this.result(true);
+        if (mined) this.record("STATE_MINED", mined.transactionHash);
+        else this.record("STATE_FAILED", undefined);
+        return await this.result(false);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    while (true) {
+      const current = await this.poll();
+      if (!current.pending) return current;
+      if (Date.now() + pollIntervalMs > deadline) return await this.result(true);
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  /**
+   * Current view without polling. Pending results carry this tracker as their handle.
+   */
+  async result(timedOut: boolean): Promise<RelayExecutionResult> {
+    const success = SUCCESS_STATES.includes(this.state);
+    const pending = !success && !FAILURE_STATES.includes(this.state);
+
+    if (success && this.transactionHash && this.gasUsed === undefined) {
+      this.gasUsed = await this.fetchGasUsed(this.transactionHash);
+    }
+
+    const out: RelayExecutionResult = {
+      transactionId: this.transactionId,
+      state: this.state,
+      success,
+      pending,
+      timedOut: pending && timedOut,
+      stateTransitions: [...this.stateTransitions],
+    };
+    if (this.transactionHash) out.transactionHash = this.transactionHash;
+    if (this.gasUsed !== undefined) out.gasUsed = this.gasUsed;
+    if (pending) out.handle = this;
+    return out;
+  }
+
+  private record(state: string, transactionHash: string | undefined): void {
+    if (transactionHash) this.transactionHash = transactionHash;
+    if (state === this.state) return;
+
+    this.state = state;
+    this.stateTransitions.push({ state, observedAtMs: Date.now() });
+    this.onStateChange?.({
+      transactionId: this.transactionId,
+      state,
+      ...(this.transactionHash ? { transactionHash: this.transactionHash } : {}),
+    });
+  }
+
+  private async fetchGasUsed(hash: string): Promise<bigint | undefined> {
+    try {
+      const publicClient = createPublicClient({
+        chain: polygon,
+        transport: http(this.rpcUrl),
+      });
+      const receipt = await publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+      return receipt.gasUsed;
+    } catch {
+      return undefined;
+    }
+  }
+}
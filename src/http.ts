@@ -0,0 +1,263 @@
+import { DEFAULT_HTTP_TIMEOUT_MS, DEFAULT_RATE_LIMITS } from "./constants.js";
+import { ApiHttpError, MissingDependencyError, RequestTimeoutError } from "./errors.js";
+import type { HttpConfig, RateLimitRule, RetryConfig } from "./types.js";
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+  retryStatuses: [429, 500, 502, 503, 504],
+};
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket holding up to rule.requests tokens, refilled evenly over rule.intervalMs.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAtMs: number;
+  private readonly ratePerMs: number;
+
+  constructor(
+    private readonly rule: RateLimitRule,
+    private readonly now: () => number
+  ) {
+    this.tokens = rule.requests;
+    this.updatedAtMs = now();
+    this.ratePerMs = rule.requests / rule.intervalMs;
+  }
+
+  async take(sleep: (ms: number) => Promise<void>): Promise<void> {
+    while (true) {
+      const now = this.now();
+      this.tokens = Math.min(
+        this.rule.requests,
+        this.tokens + (now - this.updatedAtMs) * this.ratePerMs
+      );
+      this.updatedAtMs = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.ratePerMs));
+    }
+  }
+}
+
+function urlOf(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+function statusOf(value: any): number | undefined {
+  const status = value?.response?.status ?? value?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+/**
+ * Timeouts and connection-level failures (axios without a response, fetch's "fetch failed").
+ * Anything else thrown (TypeError from a bug, validation errors, ...) is not worth retrying.
+ */
+function isNetworkError(err: any): boolean {
+  if (err instanceof RequestTimeoutError) return true;
+  if (err instanceof ApiHttpError) return err.status === 0;
+  const code = err?.code ?? err?.cause?.code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) return true;
+  if (err?.isAxiosError === true && !err.response) return true;
+  return err instanceof TypeError && err.message === "fetch failed";
+}
+
+/**
+ * Whether a rate limit key (host, or host + path prefix) applies to host + path.
+ * Path prefixes only match whole segments: "host/book" covers "host/book" and "host/book/x",
+ * not "host/books".
+ */
+function rateLimitKeyMatches(key: string, host: string, hostPath: string): boolean {
+  if (!key.includes("/")) return host === key;
+  return hostPath === key || hostPath.startsWith(`${key}/`);
+}
+
+/**
+ * Shared HTTP request layer: per-host token-bucket rate limits, per-request timeouts and
+ * retries with exponential backoff + full jitter (honouring Retry-After).
+ * Every request made by this package is treated as idempotent and may be retried.
+ */
+export class RequestLayer {
+  private readonly fetchFn: typeof fetch | undefined;
+  private readonly retry: Required<RetryConfig> | undefined;
+  private readonly timeoutMs: number;
+  private readonly rateLimits: Record<string, RateLimitRule>;
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(params: { fetchFn?: typeof fetch; config?: HttpConfig }) {
+    const cfg = params.config;
+    this.fetchFn = params.fetchFn ?? globalThis.fetch;
+    this.retry = cfg?.retry === false ? undefined : { ...DEFAULT_RETRY, ...cfg?.retry };
+    this.timeoutMs = cfg?.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS;
+    this.rateLimits =
+      cfg?.rateLimits === false ? {} : { ...DEFAULT_RATE_LIMITS, ...cfg?.rateLimits };
+    this.sleep = cfg?.sleep ?? defaultSleep;
+    this.now = cfg?.now ?? Date.now;
+    this.random = cfg?.random ?? Math.random;
+  }
+
+  /**
+   * Drop-in fetch replacement.
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const fetchFn = this.fetchFn;
+    if (!fetchFn) {
+      throw new MissingDependencyError("fetch is not available. Provide config.fetchFn.");
+    }
+    const url = urlOf(input);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(url);
+
+      let res: Response | undefined;
+      let error: unknown;
+      try {
+        res = await this.fetchWithTimeout(fetchFn, input, init, url);
+      } catch (err) {
+        if (init?.signal?.aborted || !isNetworkError(err)) throw err;
+        error = err;
+      }
+
+      if (res && !this.retry?.retryStatuses.includes(res.status)) return res;
+      if (!this.retry || attempt >= this.retry.maxRetries) {
+        if (res) return res;
+        throw error;
+      }
+
+      const retryAfterMs = res ? this.parseRetryAfter(res) : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > this.retry.maxRetryAfterMs) {
+        return res!;
+      }
+      // Release the connection of the discarded response before waiting.
+      await res?.body?.cancel().catch(() => undefined);
+      await this.sleep(retryAfterMs ?? this.backoff(attempt));
+    }
+  };
+
+  /**
+   * Runs a non-fetch call (e.g. a ClobClient method) under the rate limit and retry policy of url.
+   * Retries when the call throws a timeout/network error or an error with a retryable status,
+   * or resolves to an `{ error, status }` object with a retryable status (ClobClient's error shape).
+   */
+  async call<T>(url: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(url);
+
+      let result: T | undefined;
+      let error: unknown;
+      let failed = false;
+      try {
+        result = await fn();
+      } catch (err) {
+        error = err;
+        failed = true;
+      }
+
+      const status = failed ? statusOf(error) : (result as any)?.error ? statusOf(result) : undefined;
+      const retryable =
+        status !== undefined && status !== 0
+          ? !!this.retry?.retryStatuses.includes(status)
+          : failed && isNetworkError(error);
+
+      if (!retryable || !this.retry || attempt >= this.retry.maxRetries) {
+        if (failed) throw error;
+        return result as T;
+      }
+      await this.sleep(this.backoff(attempt));
+    }
+  }
+
+  private async acquire(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+    const hostPath = `${parsed.host}${parsed.pathname}`;
+
+    for (const [key, rule] of Object.entries(this.rateLimits)) {
+      if (!rateLimitKeyMatches(key, parsed.host, hostPath)) continue;
+
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new TokenBucket(rule, this.now);
+        this.buckets.set(key, bucket);
+      }
+      await bucket.take(this.sleep);
+    }
+  }
+
+  private async fetchWithTimeout(
+    fetchFn: typeof fetch,
+    input: RequestInfo | URL,
+    init: RequestInit | undefined,
+    url: string
+  ): Promise<Response> {
+    if (this.timeoutMs <= 0) return await fetchFn(input, init);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    init?.signal?.addEventListener("abort", onAbort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    try {
+      return await fetchFn(input, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) {
+        throw new RequestTimeoutError(`Request timed out after ${this.timeoutMs}ms: ${url}`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      init?.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const retry = this.retry ?? DEFAULT_RETRY;
+    const cap = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+    return Math.floor(this.random() * cap);
+  }
+
+  private parseRetryAfter(res: Response): number | undefined {
+    const header = res.headers?.get?.("retry-after");
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const dateMs = Date.parse(header);
+    if (Number.isNaN(dateMs)) return undefined;
+    return Math.max(0, dateMs - this.now());
+  }
+}
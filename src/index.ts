@@ -3,11 +3,22 @@ export * from "./errors.js";
 export * from "./tokens.js";
 export * from "./constants.js";
 export * from "./approvals.js";
+export * from "./balances.js";
 export * from "./redeem.js";
 export * from "./merge.js";
 export * from "./transfer.js";
 export * from "./split.js";
+export * from "./convert.js";
 export * from "./usdc.js";
+export * from "./http.js";
+export * from "./validation.js";
 export * from "./data.js";
+export * from "./market-index.js";
+export * from "./orderbook.js";
+export * from "./order-tracker.js";
+export * from "./execution.js";
+export * from "./simulate.js";
+export * from "./describe.js";
 export * from "./kit.js";
 export * from "./clob-errors.js";
+export * from "./ctf-ids.js";
@@ -1,9 +1,9 @@
 import { BuilderConfig } from "@polymarket/builder-signing-sdk";
-import { RelayClient } from "@polymarket/builder-relayer-client";
+import { RelayClient, type SafeTransaction } from "@polymarket/builder-relayer-client";
 import { deriveSafe } from "@polymarket/builder-relayer-client/dist/builder/derive.js";
 import { getContractConfig } from "@polymarket/builder-relayer-client/dist/config/index.js";
 import { ClobClient, OrderType, Side } from "@polymarket/clob-client";
-import { createPublicClient, http } from "viem";
+import { BaseError, HttpRequestError, createPublicClient, http, parseUnits } from "viem";
 import { polygon } from "viem/chains";
 import type { Signer } from "ethers";
 
@@ -11,37 +11,243 @@ import {
   DEFAULT_CHAIN_ID,
   DEFAULT_CLOB_API_URL,
   DEFAULT_RELAYER_URL,
+  OUTCOME_TOKEN_DECIMALS,
 } from "./constants.js";
-import { InvalidConfigError } from "./errors.js";
-import { checkAllApprovals, createAllApprovalTxs } from "./approvals.js";
-import { createRedeemTx } from "./redeem.js";
-import { createMergePositionsTx } from "./merge.js";
+import {
+  ApiHttpError,
+  InvalidArgumentError,
+  InvalidConfigError,
+  InvalidResponseError,
+  PolyCoreError,
+  RelayExecutionError,
+  SafeNotDeployedError,
+  SimulationFailedError,
+} from "./errors.js";
+import {
+  checkAllApprovals,
+  createApprovalPolicyTxs,
+  createRevokeAllApprovalTxs,
+  evaluateApprovalPolicy,
+  getApprovalDetails,
+} from "./approvals.js";
+import { getCtfBalances } from "./balances.js";
+import { createNegRiskRedeemTx, createRedeemTx } from "./redeem.js";
+import { createMergePositionsTx, createNegRiskMergePositionsTx } from "./merge.js";
 import { createUsdcTransferTx } from "./transfer.js";
 import { createSplitPositionTx } from "./split.js";
+import { createConvertPositionsTx } from "./convert.js";
 import { createApproveAndTransferUsdcTxs, createUsdcApproveTx } from "./usdc.js";
 
+import {
+  PolymarketDataClient,
+  type GetPositionsParams,
+  type OrderBookSummary,
+  type PolymarketEvent,
+  type PolymarketPosition,
+} from "./data.js";
+import { DirectSafeExecutionBackend, ExecutionTracker } from "./execution.js";
+import { simulateSafeTransactions } from "./simulate.js";
+import { RequestLayer } from "./http.js";
+import { MarketIndex } from "./market-index.js";
+import { OrderTracker, toOrderSnapshot } from "./order-tracker.js";
+import { estimateFill, getBookDepth, getMaxFillableSize, getMidPrice } from "./orderbook.js";
 import type {
+  ApprovalDetails,
+  ApprovalPolicy,
+  ApprovalStatus,
   ApproveAndTransferUsdcParams,
   ApiCredentials,
+  CancelMarketOrdersParams,
+  CancelOrdersResult,
   CreateLimitOrderRequest,
   CreateMarketOrderRequest,
   CreateOrderResult,
   EnsureApprovalsResult,
+  ExecuteOptions,
+  ExecutionBackend,
+  ExecutionWaitOptions,
+  ExecutionResponse,
   HexAddress,
+  MergeAllOptions,
+  MergeAllResult,
+  MergeConditionReport,
   MergePositionsParams,
+  OrderSide,
+  OrderSnapshot,
   PolyCoreConfig,
   ProgressEvent,
+  RedeemAllOptions,
+  RedeemAllResult,
+  RedeemConditionReport,
+  RedeemPositionParams,
+  ReplaceOrderChanges,
+  ReplaceOrderResult,
+  RelayExecutionHandle,
+  RelayExecutionResult,
+  ResponseValidationConfig,
+  SimulationResult,
   TickSize,
   TradingSession,
   UsdcTransferParams,
   SplitPositionParams,
   UsdcApproveParams,
 } from "./types.js";
-import { mapClobErrorMsgToCode } from "./clob-errors.js";
+import {
+  assertClobResponse,
+  mapClobCancelErrorMsgToCode,
+  mapClobErrorMsgToCode,
+} from "./clob-errors.js";
+
+type ConditionBatchReport = {
+  status: string;
+  transactionId?: string;
+  transactionHash?: string;
+  reason?: string;
+};
+
+const DEFAULT_MARKET_ORDER_MAX_SLIPPAGE_BPS = 500;
+/**
+ * Max orders per CLOB POST /orders request.
+ */
+const MAX_ORDERS_PER_BATCH = 15;
+const DEFAULT_REDEEM_BATCH_SIZE = 10;
+const DEFAULT_MERGE_BATCH_SIZE = 10;
+const POSITIONS_PAGE_LIMIT = 500;
+const POSITIONS_MAX_OFFSET = 10_000;
+/**
+ * The CLOB rejects GTD orders expiring less than about a minute out.
+ */
+const MIN_GTD_EXPIRATION_LEAD_SECONDS = 60;
+
+/**
+ * Groups positions by conditionId, keeping neg-risk and standard positions apart.
+ */
+function groupPositionsByCondition(
+  positions: PolymarketPosition[]
+): Map<string, PolymarketPosition[]> {
+  const groups = new Map<string, PolymarketPosition[]>();
+  for (const position of positions) {
+    const key = `${position.conditionId.toLowerCase()}:${position.negativeRisk ? "neg" : "std"}`;
+    const group = groups.get(key);
+    if (group) group.push(position);
+    else groups.set(key, [position]);
+  }
+  return groups;
+}
+
+function sharesToBaseUnits(size: number): bigint {
+  return parseUnits(size.toFixed(OUTCOME_TOKEN_DECIMALS), OUTCOME_TOKEN_DECIMALS);
+}
+
+type PreparedLimitOrder = {
+  order: any;
+  options: any;
+  orderType: OrderType;
+  deferExec: boolean;
+};
+
+function isPreparedLimitOrder(
+  value: PreparedLimitOrder | CreateOrderResult
+): value is PreparedLimitOrder {
+  return "order" in value;
+}
 
-type TokenMeta = { tickSize: TickSize; negRisk: boolean; fetchedAtMs: number };
+/**
+ * Maps a thrown order request error (axios-style, or an ApiHttpError / RequestTimeoutError from
+ * a metadata or book lookup) to a failed CreateOrderResult.
+ */
+function orderRequestFailure(err: any): CreateOrderResult {
+  if (err instanceof ApiHttpError) {
+    return {
+      success: false,
+      errorCode: "HTTP_ERROR",
+      errorMsg: err.message,
+      raw: { httpStatus: err.status, data: err.body },
+    };
+  }
+  const httpStatus = err?.response?.status as number | undefined;
+  const data = err?.response?.data as any;
+  const errorMsg: string =
+    (data?.errorMsg as string | undefined) ??
+    (data?.error as string | undefined) ??
+    (err?.message as string | undefined) ??
+    "Request failed";
+  return {
+    success: false,
+    errorCode: httpStatus ? "HTTP_ERROR" : "UNKNOWN",
+    errorMsg,
+    raw: { httpStatus, data },
+  };
+}
+
+/**
+ * Share sizes carry at most 6 decimals; avoids float residue like 4.999999999.
+ */
+function roundSize(size: number): number {
+  return Math.round(size * 1e6) / 1e6;
+}
+
+/**
+ * Maps a CLOB cancel response ({ canceled, not_canceled }) to CancelOrdersResult.
+ * requestedIds (when known) that appear in neither list are reported as not canceled.
+ * `{ error, status }` failures must be rejected with assertClobResponse first.
+ */
+function normalizeCancelResponse(res: any, requestedIds?: string[]): CancelOrdersResult {
+  const out: CancelOrdersResult = { canceled: [], notCanceled: {} };
+  if (!res || typeof res !== "object") res = {};
+
+  if (Array.isArray(res.canceled)) {
+    out.canceled = res.canceled.map(String);
+  }
+  const notCanceled = res.not_canceled;
+  if (notCanceled && typeof notCanceled === "object") {
+    for (const [id, reason] of Object.entries(notCanceled)) {
+      const errorMsg = typeof reason === "string" ? reason : JSON.stringify(reason);
+      out.notCanceled[id] = {
+        errorCode: mapClobCancelErrorMsgToCode(errorMsg) ?? "UNKNOWN",
+        errorMsg,
+      };
+    }
+  }
+
+  for (const id of requestedIds ?? []) {
+    if (!out.canceled.includes(id) && !out.notCanceled[id]) {
+      out.notCanceled[id] = { errorCode: "UNKNOWN", errorMsg: "Not reported as canceled" };
+    }
+  }
+  return out;
+}
 
-const DEFAULT_META_CACHE_TTL_MS = 60_000;
+/**
+ * The relayer client throws Error(JSON.stringify({ error, status, data })) on HTTP failures.
+ * Converts those into ApiHttpError; any other error is returned unchanged.
+ */
+function toRelayerError(err: unknown, relayerUrl: string): unknown {
+  if (!(err instanceof Error) || !err.message.startsWith("{")) return err;
+  let payload: any;
+  try {
+    payload = JSON.parse(err.message);
+  } catch {
+    return err;
+  }
+  if (payload?.error === "request error" && typeof payload.status === "number") {
+    return new ApiHttpError({
+      service: "relayer",
+      url: relayerUrl,
+      status: payload.status,
+      body: payload.data,
+    });
+  }
+  if (payload?.error === "connection error") {
+    return new ApiHttpError({
+      service: "relayer",
+      url: relayerUrl,
+      status: 0,
+      message: `relayer connection error (${relayerUrl})`,
+    });
+  }
+  return err;
+}
 
 function getTickDecimals(tick: TickSize): number {
   const idx = tick.indexOf(".");
@@ -79,16 +285,24 @@ export class PolymarketTradingKit {
     relayerUrl: string;
     remoteSigning: { url: string; token?: string };
     fetchFn?: typeof fetch;
+    approvalPolicy?: ApprovalPolicy;
+    validation?: ResponseValidationConfig;
   };
 
   private readonly eoaAddress: HexAddress;
   private readonly signer: Signer;
-  private readonly tokenMetaCache = new Map<string, TokenMeta>();
+  private readonly http: RequestLayer;
+  private readonly marketIndex: MarketIndex;
 
+  /**
+   * marketIndex: optional index used for token metadata; pass the same instance to several kits
+   * to share one cache. Default: a MarketIndex over createDataClient() configured by config.metadataCache.
+   */
   constructor(params: {
     config: PolyCoreConfig;
     eoaAddress: HexAddress;
     signer: Signer;
+    marketIndex?: MarketIndex;
   }) {
     if (!params.config.rpcUrl) {
       throw new InvalidConfigError("rpcUrl is required");
@@ -108,6 +322,27 @@ export class PolymarketTradingKit {
     if (params.config.fetchFn) {
       this.cfg.fetchFn = params.config.fetchFn;
     }
+    if (params.config.approvalPolicy) {
+      this.cfg.approvalPolicy = params.config.approvalPolicy;
+    }
+    if (params.config.validation) {
+      this.cfg.validation = params.config.validation;
+    }
+
+    this.http = new RequestLayer({
+      ...(params.config.fetchFn ? { fetchFn: params.config.fetchFn } : {}),
+      ...(params.config.http ? { config: params.config.http } : {}),
+    });
+
+    const cache = params.config.metadataCache;
+    this.marketIndex =
+      params.marketIndex ??
+      new MarketIndex({
+        dataClient: this.createDataClient(),
+        ...(cache?.storage ? { storage: cache.storage } : {}),
+        ...(cache?.mutableTtlMs !== undefined ? { mutableTtlMs: cache.mutableTtlMs } : {}),
+        ...(cache?.immutableTtlMs !== undefined ? { immutableTtlMs: cache.immutableTtlMs } : {}),
+      });
 
     this.eoaAddress = params.eoaAddress;
     this.signer = params.signer;
@@ -137,6 +372,19 @@ export class PolymarketTradingKit {
     );
   }
 
+  /**
+   * Execution backend that bypasses the relayer: the EOA signs and submits Safe
+   * execTransaction calls through the configured RPC (pays gas in POL).
+   */
+  createDirectExecutionBackend(safeAddress?: HexAddress): DirectSafeExecutionBackend {
+    return new DirectSafeExecutionBackend({
+      rpcUrl: this.cfg.rpcUrl,
+      chainId: this.cfg.chainId,
+      signer: this.signer,
+      safeAddress: safeAddress ?? this.deriveSafeAddress(),
+    });
+  }
+
   deriveSafeAddress(): HexAddress {
     const config = getContractConfig(this.cfg.chainId);
     return deriveSafe(this.eoaAddress, config.SafeContracts.SafeFactory) as HexAddress;
@@ -148,16 +396,36 @@ export class PolymarketTradingKit {
       transport: http(this.cfg.rpcUrl),
     });
 
-    const code = await publicClient.getBytecode({ address: safeAddress });
+    let code: string | undefined;
+    try {
+      code = await publicClient.getBytecode({ address: safeAddress });
+    } catch (err) {
+      const httpErr =
+        err instanceof BaseError ? err.walk((e) => e instanceof HttpRequestError) : null;
+      if (httpErr instanceof HttpRequestError) {
+        // Report the origin only: RPC URLs often embed an API key.
+        const origin = new URL(this.cfg.rpcUrl).origin;
+        throw new ApiHttpError({
+          service: "rpc",
+          url: origin,
+          status: httpErr.status ?? 0,
+          body: httpErr.details,
+          message: `RPC error: ${httpErr.status ?? "network failure"} (${origin})`,
+        });
+      }
+      throw err;
+    }
     return code !== undefined && code !== "0x" && code.length > 2;
   }
 
   async deploySafe(relayClient: RelayClient): Promise<HexAddress> {
-    const response = await relayClient.deploy();
+    const response = await relayClient.deploy().catch((err: unknown) => {
+      throw toRelayerError(err, this.cfg.relayerUrl);
+    });
     const result = await response.wait();
 
     if (!result?.proxyAddress) {
-      throw new Error("Safe deployment failed");
+      throw new RelayExecutionError("Safe deployment failed", response.transactionID);
     }
 
     return result.proxyAddress as HexAddress;
@@ -179,6 +447,34 @@ export class PolymarketTradingKit {
     return created;
   }
 
+  /**
+   * Token/market metadata index backing order placement (tick size, neg risk).
+   */
+  getMarketIndex(): MarketIndex {
+    return this.marketIndex;
+  }
+
+  /**
+   * Warms tick size / neg risk for many tokens with one POST /books, e.g. before a burst of orders.
+   */
+  async prefetchTokenMeta(tokenIds: string[]): Promise<void> {
+    await this.marketIndex.prefetchTradingMeta(tokenIds);
+  }
+
+  /**
+   * Data client sharing the kit's request layer (retries, rate limits, timeouts).
+   */
+  createDataClient(): PolymarketDataClient {
+    return new PolymarketDataClient(
+      {
+        clobApiUrl: this.cfg.clobApiUrl,
+        ...(this.cfg.fetchFn ? { fetchFn: this.cfg.fetchFn } : {}),
+        ...(this.cfg.validation ? { validation: this.cfg.validation } : {}),
+      },
+      this.http
+    );
+  }
+
   createClobClient(params: {
     apiCredentials: ApiCredentials;
     safeAddress: HexAddress;
@@ -198,28 +494,102 @@ export class PolymarketTradingKit {
     );
   }
 
-  async checkApprovals(safeAddress: HexAddress) {
-    return await checkAllApprovals({
+  /**
+   * Checks approvals against config.approvalPolicy (default: unlimited approvals for every spender).
+   */
+  async checkApprovals(safeAddress: HexAddress): Promise<ApprovalStatus> {
+    if (!this.cfg.approvalPolicy) {
+      return await checkAllApprovals({
+        rpcUrl: this.cfg.rpcUrl,
+        safeAddress,
+      });
+    }
+
+    const details = await this.getApprovalDetails(safeAddress);
+    return evaluateApprovalPolicy({ details, policy: this.cfg.approvalPolicy });
+  }
+
+  /**
+   * Exact USDC.e allowance and outcome token operator approval per spender, including any
+   * spender named by config.approvalPolicy.
+   */
+  async getApprovalDetails(safeAddress: HexAddress): Promise<ApprovalDetails> {
+    return await getApprovalDetails({
       rpcUrl: this.cfg.rpcUrl,
       safeAddress,
+      ...(this.cfg.approvalPolicy ? { policy: this.cfg.approvalPolicy } : {}),
     });
   }
 
-  async ensureApprovals(relayClient: RelayClient, safeAddress: HexAddress): Promise<EnsureApprovalsResult> {
-    const approvals = await this.checkApprovals(safeAddress);
+  /**
+   * Revokes every USDC.e allowance (approve 0) and outcome token operator approval
+   * (setApprovalForAll false) in a single execute call.
+   */
+  async revokeAllApprovals(
+    backend: ExecutionBackend,
+    safeAddress: HexAddress,
+    options?: ExecuteOptions
+  ): Promise<EnsureApprovalsResult> {
+    const { txs } = createRevokeAllApprovalTxs();
+    const before = options?.fireAndForget ? await this.checkApprovals(safeAddress) : undefined;
+    const execution = await this.executeTxs(backend, txs, "Revoke all token approvals", {
+      safeAddress,
+      ...options,
+    });
+    if (before && execution.pending) {
+      return { didSubmitTx: true, approvals: before, approvalsPending: true, execution };
+    }
+
+    const after = await this.checkApprovals(safeAddress);
+    return { didSubmitTx: true, approvals: after, execution };
+  }
+
+  /**
+   * Reads CTF outcome token balances (base units) for the Safe directly from chain.
+   */
+  async getPositionBalances(
+    safeAddress: HexAddress,
+    tokenIds: string[]
+  ): Promise<Record<string, bigint>> {
+    return await getCtfBalances({
+      rpcUrl: this.cfg.rpcUrl,
+      owner: safeAddress,
+      tokenIds,
+    });
+  }
+
+  /**
+   * Submits only the approvals needed to bring each spender in line with config.approvalPolicy.
+   */
+  async ensureApprovals(
+    backend: ExecutionBackend,
+    safeAddress: HexAddress,
+    options?: ExecuteOptions
+  ): Promise<EnsureApprovalsResult> {
+    const details = await this.getApprovalDetails(safeAddress);
+    const policy = this.cfg.approvalPolicy;
+    const approvals = evaluateApprovalPolicy({
+      details,
+      ...(policy ? { policy } : {}),
+    });
     if (approvals.allApproved) {
       return { didSubmitTx: false, approvals };
     }
 
-    const { txs } = createAllApprovalTxs();
-    const response = await relayClient.execute(
-      txs,
-      "Set all token approvals for trading"
-    );
-    await response.wait();
+    const { txs } = createApprovalPolicyTxs({
+      details,
+      ...(policy ? { policy } : {}),
+    });
+    const execution = await this.executeTxs(backend, txs, "Set all token approvals for trading", {
+      safeAddress,
+      ...options,
+    });
+    if (execution.pending) {
+      return { didSubmitTx: true, approvals, approvalsPending: true, execution };
+    }
 
     const after = await this.checkApprovals(safeAddress);
-    return { didSubmitTx: true, approvals: after };
+    return { didSubmitTx: true, approvals: after, execution };
   }
 
   async initializeTradingSession(params?: {
@@ -241,7 +611,7 @@ export class PolymarketTradingKit {
 
     if (!deployed) {
       if (!autoDeploySafe) {
-        throw new Error("Safe is not deployed");
+        throw new SafeNotDeployedError(safeAddress);
       }
       onProgress?.({ step: "deploy_safe", message: "Deploying Safe" });
       await this.deploySafe(relayClient);
@@ -327,25 +697,10 @@ export class PolymarketTradingKit {
       return out;
     }
 
-    const cached = this.tokenMetaCache.get(params.tokenId);
-    const now = Date.now();
-    if (cached && now - cached.fetchedAtMs <= DEFAULT_META_CACHE_TTL_MS) {
-      const out: { tickSize?: TickSize; negRisk?: boolean } = {};
-      out.tickSize = params.tickSizeOverride ?? cached.tickSize;
-      out.negRisk = params.negRiskOverride ?? cached.negRisk;
-      return out;
-    }
-
-    // Single call to get both tick size and neg risk.
-    const ob = await (params.clobClient as any).getOrderBook(params.tokenId);
-    const tickSize =
-      (ob?.tick_size as TickSize | undefined) ?? params.tickSizeOverride;
-    const negRisk =
-      (ob?.neg_risk as boolean | undefined) ?? params.negRiskOverride;
-
-    if (tickSize && typeof negRisk === "boolean") {
-      this.tokenMetaCache.set(params.tokenId, { tickSize, negRisk, fetchedAtMs: now });
-    }
+    // Single (cached) book lookup for both tick size and neg risk.
+    const meta = await this.marketIndex.getTradingMeta(params.tokenId);
+    const tickSize = params.tickSizeOverride ?? meta.tickSize;
+    const negRisk = params.negRiskOverride ?? meta.negRisk;
 
     const out: { tickSize?: TickSize; negRisk?: boolean } = {};
     if (tickSize) out.tickSize = tickSize;
@@ -354,12 +709,76 @@ export class PolymarketTradingKit {
   }
 
   /**
-   * Limit orders (GTC/GTD). Also supports an aggressive orderbook mode via req.isMarketOrder=true.
+   * Walks the book for req.size and returns the worst level price needed to fill it, or a failed
+   * result when the book cannot fill within maxSlippageBps / worstPrice. Never guesses a price.
    */
-  async createLimitOrder(
+  private async resolveProtectedMarketPrice(
+    req: CreateLimitOrderRequest
+  ): Promise<number | CreateOrderResult> {
+    if (!(req.size > 0)) {
+      return {
+        success: false,
+        errorCode: "INVALID_ORDER_ERROR",
+        errorMsg: "size must be positive",
+      };
+    }
+
+    let book: OrderBookSummary | undefined;
+    try {
+      [book] = await this.createDataClient().getOrderBookSummaries([req.tokenId]);
+    } catch (err: any) {
+      return orderRequestFailure(err);
+    }
+    if (!book) {
+      return {
+        success: false,
+        errorCode: "SLIPPAGE_LIMIT_EXCEEDED",
+        errorMsg: "No order book for token",
+      };
+    }
+
+    const reference = Number(getMidPrice(book) ?? getBookDepth(book, req.side)[0]?.price);
+    if (!Number.isFinite(reference) || reference <= 0) {
+      return {
+        success: false,
+        errorCode: "SLIPPAGE_LIMIT_EXCEEDED",
+        errorMsg: "Order book is empty",
+      };
+    }
+
+    const maxSlippageBps =
+      req.maxSlippageBps ??
+      (req.worstPrice === undefined ? DEFAULT_MARKET_ORDER_MAX_SLIPPAGE_BPS : undefined);
+    const limits: number[] = [];
+    if (maxSlippageBps !== undefined) {
+      const factor = maxSlippageBps / 10_000;
+      limits.push(req.side === "BUY" ? reference * (1 + factor) : reference * (1 - factor));
+    }
+    if (req.worstPrice !== undefined) limits.push(req.worstPrice);
+    const limitPrice = req.side === "BUY" ? Math.min(...limits) : Math.max(...limits);
+
+    const estimate = estimateFill(book, { side: req.side, size: req.size });
+    const fillable = getMaxFillableSize(book, { side: req.side, limitPrice });
+    if (!estimate.fullyFilled || Number(fillable.size) < req.size) {
+      return {
+        success: false,
+        errorCode: "SLIPPAGE_LIMIT_EXCEEDED",
+        errorMsg: `Order book can only fill ${fillable.size} of ${req.size} shares within price limit ${limitPrice}`,
+        raw: { limitPrice, fillable, estimate },
+      };
+    }
+
+    return Number(estimate.worstPrice);
+  }
+
+  /**
+   * Resolves metadata and price for a limit order request and builds the unsigned order.
+   * Returns a failed CreateOrderResult when the request cannot be submitted.
+   */
+  private async prepareLimitOrder(
     clobClient: ClobClient,
     req: CreateLimitOrderRequest
-  ): Promise<CreateOrderResult> {
+  ): Promise<PreparedLimitOrder | CreateOrderResult> {
     const side = req.side === "BUY" ? Side.BUY : Side.SELL;
 
     const timeInForce = req.timeInForce ?? "GTC";
@@ -417,82 +836,24 @@ export class PolymarketTradingKit {
       };
     }
 
-    // "Aggressive limit" mode (pseudo market behavior).
+    let price: number;
     if (req.isMarketOrder) {
-      let aggressivePrice: number;
-      try {
-        const priceFromOrderbook = await clobClient.getPrice(req.tokenId, side);
-        const marketPrice = parseFloat(priceFromOrderbook.price);
-
-        if (isNaN(marketPrice) || marketPrice <= 0 || marketPrice >= 1) {
-          throw new Error("Invalid price from orderbook");
-        }
-
-        aggressivePrice =
-          req.side === "BUY"
-            ? Math.min(0.99, marketPrice * 1.05)
-            : Math.max(0.01, marketPrice * 0.95);
-      } catch {
-        aggressivePrice = req.side === "BUY" ? 0.99 : 0.01;
-      }
-
-      const maybeAligned = await applyTick(aggressivePrice);
-      if (typeof maybeAligned !== "number") return maybeAligned;
-
-      const order: any = {
-        tokenID: req.tokenId,
-        price: maybeAligned,
-        size: req.size,
-        side,
-        feeRateBps: 0,
-        expiration: orderType === OrderType.GTD ? req.expirationUnixSeconds : 0,
-        taker: "0x0000000000000000000000000000000000000000",
-      };
-
-      try {
-        const res = await (clobClient as any).createAndPostOrder(
-          order,
-          options,
-          orderType,
-          deferExec
-        );
-        const normalized = this.normalizeOrderResponse(res);
-        if (!normalized.success) return normalized;
-        if (!normalized.orderId) {
-          return {
-            success: false,
-            errorCode: "UNKNOWN",
-            errorMsg: "Order submission failed",
-            raw: normalized.raw,
-          };
-        }
-        return normalized;
-      } catch (err: any) {
-        const httpStatus = err?.response?.status as number | undefined;
-        const data = err?.response?.data as any;
-        const errorMsg: string =
-          (data?.errorMsg as string | undefined) ??
-          (data?.error as string | undefined) ??
-          (err?.message as string | undefined) ??
-          "Request failed";
+      // "Aggressive limit" mode (pseudo market behavior) with book-walking price protection.
+      const protectedPrice = await this.resolveProtectedMarketPrice(req);
+      if (typeof protectedPrice !== "number") return protectedPrice;
+      price = protectedPrice;
+    } else {
+      if (req.price === undefined) {
         return {
           success: false,
-          errorCode: httpStatus ? "HTTP_ERROR" : "UNKNOWN",
-          errorMsg,
-          raw: { httpStatus, data },
+          errorCode: "INVALID_ORDER_ERROR",
+          errorMsg: "price is required for limit orders",
         };
       }
+      price = req.price;
     }
 
-    if (req.price === undefined) {
-      return {
-        success: false,
-        errorCode: "INVALID_ORDER_ERROR",
-        errorMsg: "price is required for limit orders",
-      };
-    }
-
-    const maybeAligned = await applyTick(req.price);
+    const maybeAligned = await applyTick(price);
     if (typeof maybeAligned !== "number") return maybeAligned;
 
     const order: any = {
@@ -505,39 +866,117 @@ export class PolymarketTradingKit {
       taker: "0x0000000000000000000000000000000000000000",
     };
 
+    return { order, options, orderType, deferExec };
+  }
+
+  /**
+   * Limit orders (GTC/GTD). Also supports an aggressive orderbook mode via req.isMarketOrder=true.
+   */
+  async createLimitOrder(
+    clobClient: ClobClient,
+    req: CreateLimitOrderRequest
+  ): Promise<CreateOrderResult> {
     try {
+      const prepared = await this.prepareLimitOrder(clobClient, req);
+      if (!isPreparedLimitOrder(prepared)) return prepared;
+
       const res = await (clobClient as any).createAndPostOrder(
-        order,
-        options,
-        orderType,
-        deferExec
+        prepared.order,
+        prepared.options,
+        prepared.orderType,
+        prepared.deferExec
       );
-      const normalized = this.normalizeOrderResponse(res);
-      if (!normalized.success) return normalized;
-      if (!normalized.orderId) {
-        return {
-          success: false,
-          errorCode: "UNKNOWN",
-          errorMsg: "Order submission failed",
-          raw: normalized.raw,
-        };
-      }
-      return normalized;
+      return this.postedOrderResult(res);
     } catch (err: any) {
-      const httpStatus = err?.response?.status as number | undefined;
-      const data = err?.response?.data as any;
-      const errorMsg: string =
-        (data?.errorMsg as string | undefined) ??
-        (data?.error as string | undefined) ??
-        (err?.message as string | undefined) ??
-        "Request failed";
+      return orderRequestFailure(err);
+    }
+  }
+
+  /**
+   * Places many limit orders: metadata for all tokens is fetched together, every order is signed,
+   * and signed orders are posted through the CLOB batch endpoint in chunks of MAX_ORDERS_PER_BATCH.
+   * Returns one result per request, in input order. Per-item failures do not abort the batch.
+   */
+  async createLimitOrders(
+    clobClient: ClobClient,
+    reqs: CreateLimitOrderRequest[]
+  ): Promise<CreateOrderResult[]> {
+    const results: CreateOrderResult[] = new Array(reqs.length);
+
+    const metaTokenIds = reqs
+      .filter(
+        (r) =>
+          (r.mode ?? "auto") === "auto" &&
+          (r.negRisk === undefined || ((r.tickSizeMode ?? "none") !== "none" && !r.tickSize))
+      )
+      .map((r) => r.tokenId);
+    // Best effort: a failed prefetch surfaces again (per item) in prepareLimitOrder.
+    await this.prefetchTokenMeta(metaTokenIds).catch(() => undefined);
+
+    const signed: Array<{ index: number; order: any; orderType: OrderType; deferExec: boolean }> = [];
+    for (const [index, req] of reqs.entries()) {
+      try {
+        const prepared = await this.prepareLimitOrder(clobClient, req);
+        if (!isPreparedLimitOrder(prepared)) {
+          results[index] = prepared;
+          continue;
+        }
+        const order = await clobClient.createOrder(prepared.order, prepared.options);
+        signed.push({ index, order, orderType: prepared.orderType, deferExec: prepared.deferExec });
+      } catch (err: any) {
+        results[index] = orderRequestFailure(err);
+      }
+    }
+
+    // deferExec applies to a whole batch request, so orders are grouped by it.
+    for (const deferExec of [false, true]) {
+      const group = signed.filter((s) => s.deferExec === deferExec);
+      for (let i = 0; i < group.length; i += MAX_ORDERS_PER_BATCH) {
+        const chunk = group.slice(i, i + MAX_ORDERS_PER_BATCH);
+        try {
+          const res = await clobClient.postOrders(
+            chunk.map((s) => ({ order: s.order, orderType: s.orderType })),
+            deferExec
+          );
+          if (!Array.isArray(res)) {
+            const failure = this.postedOrderResult(res);
+            for (const s of chunk) {
+              results[s.index] = failure.success
+                ? { success: false, errorCode: "UNKNOWN", errorMsg: "Unexpected batch response", raw: res }
+                : failure;
+            }
+            continue;
+          }
+          chunk.forEach((s, j) => {
+            results[s.index] = res[j] !== undefined
+              ? this.postedOrderResult(res[j])
+              : { success: false, errorCode: "UNKNOWN", errorMsg: "Missing batch response entry", raw: res };
+          });
+        } catch (err: any) {
+          const failure = orderRequestFailure(err);
+          for (const s of chunk) results[s.index] = failure;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Normalizes a post-order response; an accepted order without an order ID counts as failed.
+   */
+  private postedOrderResult(res: any): CreateOrderResult {
+    const normalized = this.normalizeOrderResponse(res);
+    if (!normalized.success) return normalized;
+    if (!normalized.orderId) {
       return {
         success: false,
-        errorCode: httpStatus ? "HTTP_ERROR" : "UNKNOWN",
-        errorMsg,
-        raw: { httpStatus, data },
+        errorCode: "UNKNOWN",
+        errorMsg: "Order submission failed",
+        raw: normalized.raw,
       };
     }
+    return normalized;
   }
 
   /**
@@ -565,7 +1004,12 @@ export class PolymarketTradingKit {
     };
     if (req.tickSize) metaArgs.tickSizeOverride = req.tickSize;
     if (req.negRisk !== undefined) metaArgs.negRiskOverride = req.negRisk;
-    const meta = await this.resolveTokenMeta(metaArgs);
+    let meta: { tickSize?: TickSize; negRisk?: boolean };
+    try {
+      meta = await this.resolveTokenMeta(metaArgs);
+    } catch (err: any) {
+      return orderRequestFailure(err);
+    }
 
     const options: any = {};
     const negRiskResolved =
@@ -662,8 +1106,213 @@ export class PolymarketTradingKit {
     return await this.createLimitOrder(clobClient, req as CreateLimitOrderRequest);
   }
 
-  async cancelOrder(clobClient: ClobClient, orderId: string): Promise<void> {
-    await clobClient.cancelOrder({ orderID: orderId });
+  async cancelOrder(clobClient: ClobClient, orderId: string): Promise<CancelOrdersResult> {
+    return await this.cancelOrders(clobClient, [orderId]);
+  }
+
+  /**
+   * Cancels orders by ID. Every ID ends up in either canceled or notCanceled.
+   * Throws ApiHttpError when the cancel request itself fails.
+   */
+  async cancelOrders(clobClient: ClobClient, orderIds: string[]): Promise<CancelOrdersResult> {
+    const ids = Array.from(new Set(orderIds.map((id) => String(id).trim()).filter(Boolean)));
+    if (ids.length === 0) return { canceled: [], notCanceled: {} };
+
+    const res =
+      ids.length === 1
+        ? assertClobResponse(
+            await clobClient.cancelOrder({ orderID: ids[0]! }),
+            `${this.cfg.clobApiUrl}/order`
+          )
+        : assertClobResponse(await clobClient.cancelOrders(ids), `${this.cfg.clobApiUrl}/orders`);
+    return normalizeCancelResponse(res, ids);
+  }
+
+  /**
+   * Cancels every open order of the API key, or only one side when options.side is set.
+   * Throws ApiHttpError when a CLOB request fails.
+   */
+  async cancelAll(
+    clobClient: ClobClient,
+    options?: { side?: OrderSide }
+  ): Promise<CancelOrdersResult> {
+    if (options?.side) {
+      return await this.cancelOpenOrdersOnSide(clobClient, {}, options.side);
+    }
+    const res = assertClobResponse(await clobClient.cancelAll(), `${this.cfg.clobApiUrl}/cancel-all`);
+    return normalizeCancelResponse(res);
+  }
+
+  /**
+   * Cancels open orders of a market (conditionId) and/or token, optionally only one side.
+   * Without a side filter this is a single CLOB cancel-market-orders call.
+   * Throws ApiHttpError when a CLOB request fails.
+   */
+  async cancelMarketOrders(
+    clobClient: ClobClient,
+    params: CancelMarketOrdersParams
+  ): Promise<CancelOrdersResult> {
+    if (!params.conditionId && !params.tokenId) {
+      throw new InvalidArgumentError("conditionId or tokenId is required");
+    }
+    const filter = {
+      ...(params.conditionId ? { market: params.conditionId } : {}),
+      ...(params.tokenId ? { asset_id: params.tokenId } : {}),
+    };
+    if (params.side) {
+      return await this.cancelOpenOrdersOnSide(clobClient, filter, params.side);
+    }
+
+    const res = assertClobResponse(
+      await clobClient.cancelMarketOrders(filter),
+      `${this.cfg.clobApiUrl}/cancel-market-orders`
+    );
+    return normalizeCancelResponse(res);
+  }
+
+  /**
+   * The CLOB has no side filter on its cancel endpoints: lists the open orders and cancels by ID.
+   */
+  private async cancelOpenOrdersOnSide(
+    clobClient: ClobClient,
+    filter: { market?: string; asset_id?: string },
+    side: OrderSide
+  ): Promise<CancelOrdersResult> {
+    const open = assertClobResponse(
+      await clobClient.getOpenOrders(filter),
+      `${this.cfg.clobApiUrl}/data/orders`
+    );
+    const ids = (Array.isArray(open) ? open : [])
+      .filter((o) => String(o.side).toUpperCase() === side)
+      .map((o) => o.id);
+    return await this.cancelOrders(clobClient, ids);
+  }
+
+  /**
+   * Moves an order: cancels it, confirms the cancel and how much had filled, then reposts the
+   * unfilled remainder with the new price/size. Nothing is posted unless the cancel is confirmed,
+   * so the old and new order are never live at the same time. See ReplaceOrderOutcome.
+   */
+  async replaceOrder(
+    clobClient: ClobClient,
+    orderId: string,
+    changes: ReplaceOrderChanges
+  ): Promise<ReplaceOrderResult> {
+    const before = await this.getOrderSnapshot(clobClient, orderId);
+    if (!before) {
+      return { outcome: "lookup_failed", errorMsg: `Order ${orderId} could not be read` };
+    }
+    if (before.status !== "LIVE") {
+      return { outcome: "not_open", oldOrder: before };
+    }
+
+    // Keep the old order's lifetime: a GTD quote must not come back as a GTC one.
+    const wasGtd = before.orderType === "GTD" || before.expiresAtMs !== undefined;
+    const timeInForce = changes.timeInForce ?? (wasGtd ? "GTD" : "GTC");
+    const expirationUnixSeconds =
+      changes.expirationUnixSeconds ??
+      (before.expiresAtMs !== undefined ? Math.floor(before.expiresAtMs / 1000) : undefined);
+    if (timeInForce === "GTD") {
+      const earliest = Math.floor(Date.now() / 1000) + MIN_GTD_EXPIRATION_LEAD_SECONDS;
+      if (expirationUnixSeconds === undefined || expirationUnixSeconds < earliest) {
+        return {
+          outcome: "invalid_changes",
+          oldOrder: before,
+          errorMsg: `GTD replacement needs an expiration at least ${MIN_GTD_EXPIRATION_LEAD_SECONDS}s in the future`,
+        };
+      }
+    }
+
+    let cancel: CancelOrdersResult;
+    try {
+      cancel = await this.cancelOrders(clobClient, [orderId]);
+    } catch (err: any) {
+      return {
+        outcome: "cancel_failed",
+        oldOrder: before,
+        errorMsg: err?.message ?? "Cancel request failed",
+      };
+    }
+    const after = await this.getOrderSnapshot(clobClient, orderId);
+    if (!cancel.canceled.includes(orderId)) {
+      const oldOrder = after ?? before;
+      // The order may have filled completely while we tried to cancel it.
+      const filled = oldOrder.status === "MATCHED";
+      return {
+        outcome: filled ? "filled" : "cancel_failed",
+        oldOrder,
+        cancel,
+        ...(filled ? {} : { errorMsg: cancel.notCanceled[orderId]?.errorMsg ?? "Cancel failed" }),
+      };
+    }
+    if (!after || after.status === "LIVE") {
+      return {
+        outcome: "cancel_unconfirmed",
+        oldOrder: after ?? before,
+        cancel,
+        errorMsg: "Could not confirm the canceled order's final state",
+      };
+    }
+
+    const targetSize = changes.size ?? after.originalSize;
+    const repostSize = roundSize(targetSize - after.sizeMatched);
+    if (repostSize <= 0) {
+      return { outcome: "filled", oldOrder: after, cancel };
+    }
+
+    const req: CreateLimitOrderRequest = {
+      tokenId: after.tokenId,
+      side: after.side,
+      size: repostSize,
+      price: changes.price ?? after.price,
+      timeInForce,
+    };
+    if (timeInForce === "GTD") req.expirationUnixSeconds = expirationUnixSeconds!;
+    if (changes.negRisk !== undefined) req.negRisk = changes.negRisk;
+    if (changes.tickSizeMode) req.tickSizeMode = changes.tickSizeMode;
+    if (changes.tickRounding) req.tickRounding = changes.tickRounding;
+    if (changes.deferExec !== undefined) req.deferExec = changes.deferExec;
+
+    const newOrder = await this.createLimitOrder(clobClient, req);
+    return {
+      outcome: newOrder.success ? "replaced" : "repost_failed",
+      oldOrder: after,
+      cancel,
+      repostSize,
+      newOrder,
+      ...(newOrder.success ? {} : { errorMsg: newOrder.errorMsg ?? "Repost failed" }),
+    };
+  }
+
+  /**
+   * Reads one order. Returns undefined when the CLOB request fails or the order is unknown.
+   */
+  async getOrderSnapshot(
+    clobClient: ClobClient,
+    orderId: string
+  ): Promise<OrderSnapshot | undefined> {
+    try {
+      const res: any = await this.http.call(`${this.cfg.clobApiUrl}/data/order`, () =>
+        clobClient.getOrder(orderId)
+      );
+      if (!res || res.error !== undefined || !res.id) return undefined;
+      return toOrderSnapshot(res);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * OrderTracker over this CLOB client, sharing the kit's request layer and RPC (for settlement receipts).
+   * Feed it the results of createLimitOrder/createMarketOrder via track() and call poll() or start().
+   */
+  createOrderTracker(clobClient: ClobClient): OrderTracker {
+    return new OrderTracker({
+      clobClient,
+      clobApiUrl: this.cfg.clobApiUrl,
+      requestLayer: this.http,
+      rpcUrl: this.cfg.rpcUrl,
+    });
   }
 
   async getOpenOrders(clobClient: ClobClient) {
@@ -676,10 +1325,13 @@ export class PolymarketTradingKit {
     midPrice: number;
     spread: number;
   }> {
-    const [bidRes, askRes] = await Promise.all([
-      clobClient.getPrice(tokenId, Side.BUY),
-      clobClient.getPrice(tokenId, Side.SELL),
-    ]);
+    const priceUrl = `${this.cfg.clobApiUrl}/price`;
+    const [bidRes, askRes] = (
+      await Promise.all([
+        this.http.call(priceUrl, () => clobClient.getPrice(tokenId, Side.BUY)),
+        this.http.call(priceUrl, () => clobClient.getPrice(tokenId, Side.SELL)),
+      ])
+    ).map((res) => assertClobResponse(res, priceUrl));
 
     const bidPrice = parseFloat(bidRes.price);
     const askPrice = parseFloat(askRes.price);
@@ -692,7 +1344,11 @@ export class PolymarketTradingKit {
       askPrice <= 0 ||
       askPrice >= 1
     ) {
-      throw new Error("Invalid prices");
+      throw new InvalidResponseError(
+        `Invalid prices for token ${tokenId}: bid=${bidRes.price}, ask=${askRes.price}`,
+        "clob",
+        priceUrl
+      );
     }
 
     return {
@@ -703,51 +1359,538 @@ export class PolymarketTradingKit {
     };
   }
 
-  async redeemPosition(relayClient: RelayClient, params: { conditionId: string; outcomeIndex: number; }): Promise<void> {
-    const tx = createRedeemTx(params);
-    const response = await relayClient.execute(
+  /**
+   * Redeems a resolved position. Neg-risk positions (negativeRisk=true) are redeemed
+   * through the NegRiskAdapter and require amount or size.
+   */
+  async redeemPosition(
+    backend: ExecutionBackend,
+    params: RedeemPositionParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
+    const tx = params.negativeRisk
+      ? createNegRiskRedeemTx({
+          conditionId: params.conditionId,
+          amounts: this.buildNegRiskRedeemAmounts(params),
+        })
+      : createRedeemTx({
+          conditionId: params.conditionId,
+          outcomeIndex: params.outcomeIndex,
+        });
+    return await this.executeTxs(
+      backend,
       [tx],
-      `Redeem position for condition ${params.conditionId}`
+      `Redeem position for condition ${params.conditionId}`,
+      options
     );
-    await response.wait();
   }
 
-  async mergePositions(relayClient: RelayClient, params: MergePositionsParams): Promise<void> {
+  private buildNegRiskRedeemAmounts(params: RedeemPositionParams): bigint[] {
+    let amount = params.amount;
+    if (amount === undefined && params.size !== undefined) {
+      amount = sharesToBaseUnits(params.size);
+    }
+    if (amount === undefined || amount <= 0n) {
+      throw new InvalidArgumentError("amount or size is required to redeem a neg-risk position");
+    }
+    if (params.outcomeIndex !== 0 && params.outcomeIndex !== 1) {
+      throw new InvalidArgumentError("outcomeIndex must be 0 or 1 for neg-risk positions");
+    }
+
+    const amounts = [0n, 0n];
+    amounts[params.outcomeIndex] = amount;
+    return amounts;
+  }
+
+  /**
+   * Pages through every Data API position of the Safe matching the given filter.
+   */
+  private async getAllPositions(
+    safeAddress: HexAddress,
+    filter: Omit<GetPositionsParams, "user" | "limit" | "offset">
+  ): Promise<{ positions: PolymarketPosition[]; truncated: boolean }> {
+    const dataClient = this.createDataClient();
+    const positions: PolymarketPosition[] = [];
+
+    for (let offset = 0; offset <= POSITIONS_MAX_OFFSET; offset += POSITIONS_PAGE_LIMIT) {
+      const page = await dataClient.getPositions({
+        ...filter,
+        user: safeAddress,
+        limit: POSITIONS_PAGE_LIMIT,
+        offset,
+      });
+      positions.push(...page);
+      if (page.length < POSITIONS_PAGE_LIMIT) return { positions, truncated: false };
+    }
+
+    // The last allowed page was full: the Data API may hold more positions than we can page to.
+    return { positions, truncated: true };
+  }
+
+  /**
+   * Dry-runs a batch of SafeTransactions from the Safe via eth_call and decodes any revert reason.
+   */
+  async simulateSafeTransactions(
+    safeAddress: HexAddress,
+    txs: SafeTransaction[]
+  ): Promise<SimulationResult> {
+    return await simulateSafeTransactions({
+      rpcUrl: this.cfg.rpcUrl,
+      chainId: this.cfg.chainId,
+      safeAddress,
+      txs,
+    });
+  }
+
+  /**
+   * Executes a batch through the backend and tracks it until mined, failed or timed out.
+   * With options.simulate, the batch is simulated first and a SimulationFailedError is thrown
+   * instead of submitting when it would revert.
+   * With options.fireAndForget, returns right after submission with a pending result + handle.
+   */
+  private async executeTxs(
+    backend: ExecutionBackend,
+    txs: SafeTransaction[],
+    metadata: string,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
+    if (options?.simulate) {
+      const simulation = await this.simulateSafeTransactions(
+        options.safeAddress ?? this.deriveSafeAddress(),
+        txs
+      );
+      if (!simulation.success) {
+        throw new SimulationFailedError(
+          `Simulation failed: ${simulation.revertReason ?? "execution reverted"}`,
+          simulation
+        );
+      }
+    }
+
+    const response = await this.submit(backend, txs, metadata);
+    const tracker = new ExecutionTracker(
+      response,
+      this.cfg.rpcUrl,
+      options?.onStateChange ? { onStateChange: options.onStateChange } : undefined
+    );
+    if (options?.fireAndForget) {
+      return await tracker.result(false);
+    }
+
+    let execution: RelayExecutionResult;
+    try {
+      execution = await tracker.wait(options);
+    } catch (err) {
+      throw this.toExecutionError(err, "Failed to follow transaction", response.transactionID);
+    }
+    if (execution.timedOut) {
+      throw new RelayExecutionError(
+        `Timed out waiting for transaction (last state ${execution.state})`,
+        execution.transactionId,
+        execution.state,
+        execution
+      );
+    }
+    if (!execution.success) {
+      throw new RelayExecutionError(
+        `Transaction failed (${execution.state})`,
+        execution.transactionId,
+        execution.state,
+        execution
+      );
+    }
+    return execution;
+  }
+
+  private async submit(
+    backend: ExecutionBackend,
+    txs: SafeTransaction[],
+    metadata: string
+  ): Promise<ExecutionResponse> {
+    try {
+      return await backend.execute(txs, metadata);
+    } catch (err) {
+      throw this.toExecutionError(err, "Execution request failed");
+    }
+  }
+
+  /**
+   * Relayer HTTP failures become ApiHttpError; other untyped errors are wrapped in RelayExecutionError.
+   */
+  private toExecutionError(err: unknown, message: string, transactionId?: string): unknown {
+    const mapped = toRelayerError(err, this.cfg.relayerUrl);
+    if (mapped instanceof PolyCoreError) return mapped;
+    const detail = mapped instanceof Error ? mapped.message : String(mapped);
+    return new RelayExecutionError(`${message}: ${detail}`, transactionId, undefined, undefined, {
+      cause: mapped,
+    });
+  }
+
+  /**
+   * Re-attaches to a relayer transaction by ID (e.g. a fire-and-forget result after a restart).
+   */
+  trackRelayTransaction(relayClient: RelayClient, transactionId: string): RelayExecutionHandle {
+    const response: ExecutionResponse = {
+      transactionID: transactionId,
+      getTransaction: async () => await relayClient.getTransaction(transactionId),
+      wait: async () =>
+        await relayClient.pollUntilState(
+          transactionId,
+          ["STATE_MINED", "STATE_CONFIRMED"],
+          "STATE_FAILED"
+        ),
+    };
+    return new ExecutionTracker(response, this.cfg.rpcUrl);
+  }
+
+  /**
+   * Returns a lookup of each position's amount in base units: the on-chain CTF balance
+   * when checkOnChain is true, otherwise the Data API size.
+   */
+  private async resolvePositionAmounts(
+    safeAddress: HexAddress,
+    positions: PolymarketPosition[],
+    checkOnChain: boolean
+  ): Promise<(position: PolymarketPosition) => bigint> {
+    if (!checkOnChain) {
+      return (p) => sharesToBaseUnits(Number(p.size) || 0);
+    }
+
+    const balances = await this.getPositionBalances(
+      safeAddress,
+      positions.map((p) => p.asset)
+    );
+    return (p) => balances[String(p.asset).trim()] ?? 0n;
+  }
+
+  /**
+   * Executes per-condition transactions in chunks of batchSize conditions and records
+   * the outcome on each report.
+   */
+  private async executeConditionBatches<R extends ConditionBatchReport>(
+    backend: ExecutionBackend,
+    pending: Array<{ report: R; txs: SafeTransaction[] }>,
+    params: {
+      batchSize: number;
+      successStatus: R["status"];
+      describe: (count: number) => string;
+      safeAddress: HexAddress;
+      simulate: boolean;
+      wait: ExecutionWaitOptions | undefined;
+    }
+  ): Promise<void> {
+    for (let i = 0; i < pending.length; i += params.batchSize) {
+      const batch = pending.slice(i, i + params.batchSize);
+      const txs = batch.flatMap((b) => b.txs);
+      try {
+        if (params.simulate) {
+          const simulation = await this.simulateSafeTransactions(params.safeAddress, txs);
+          if (!simulation.success) {
+            for (const { report } of batch) {
+              report.status = "failed";
+              report.reason = `Simulation failed: ${simulation.revertReason ?? "execution reverted"}`;
+            }
+            continue;
+          }
+        }
+
+        const response = await this.submit(backend, txs, params.describe(batch.length));
+        const execution = await new ExecutionTracker(response, this.cfg.rpcUrl).wait(params.wait);
+        for (const { report } of batch) {
+          report.transactionId = execution.transactionId;
+          if (execution.transactionHash) report.transactionHash = execution.transactionHash;
+          if (execution.success) {
+            report.status = params.successStatus;
+            continue;
+          }
+          report.status = "failed";
+          report.reason = execution.timedOut
+            ? `Timed out waiting for transaction (last state ${execution.state})`
+            : `Transaction failed (${execution.state})`;
+        }
+      } catch (err: any) {
+        for (const { report } of batch) {
+          report.status = "failed";
+          report.reason = err?.message ?? "Execution request failed";
+        }
+      }
+    }
+  }
+
+  /**
+   * Redeems every redeemable position of the Safe.
+   * Positions are grouped by conditionId (neg-risk and standard separately) and batched
+   * into as few execute calls as possible. Returns one report per condition.
+   */
+  async redeemAll(
+    backend: ExecutionBackend,
+    safeAddress: HexAddress,
+    options?: RedeemAllOptions
+  ): Promise<RedeemAllResult> {
+    const batchSize = Math.max(1, Math.floor(options?.batchSize ?? DEFAULT_REDEEM_BATCH_SIZE));
+    const skipWorthless = options?.skipWorthless ?? false;
+
+    const { positions, truncated } = await this.getAllPositions(safeAddress, {
+      redeemable: true,
+      sizeThreshold: options?.sizeThreshold ?? 0,
+    });
+    const amountOf = await this.resolvePositionAmounts(
+      safeAddress,
+      positions,
+      options?.checkOnChainBalances ?? true
+    );
+
+    const groups = groupPositionsByCondition(positions);
+
+    const reports: RedeemConditionReport[] = [];
+    const pending: Array<{ report: RedeemConditionReport; txs: SafeTransaction[] }> = [];
+
+    for (const group of groups.values()) {
+      const first = group[0]!;
+      const outcomeIndices = Array.from(new Set(group.map((p) => p.outcomeIndex))).sort(
+        (a, b) => a - b
+      );
+      const report: RedeemConditionReport = {
+        conditionId: first.conditionId,
+        negativeRisk: Boolean(first.negativeRisk),
+        status: "skipped",
+        outcomeIndices,
+        size: group.reduce((sum, p) => sum + (Number(p.size) || 0), 0),
+      };
+      reports.push(report);
+
+      if (skipWorthless && group.every((p) => !(Number(p.currentValue) > 0))) {
+        report.reason = "Position has no redeemable value";
+        continue;
+      }
+
+      try {
+        let txs: SafeTransaction[];
+        if (report.negativeRisk) {
+          const amounts = [0n, 0n];
+          for (const p of group) {
+            if (p.outcomeIndex !== 0 && p.outcomeIndex !== 1) {
+              throw new InvalidResponseError(
+                `Unexpected neg-risk outcomeIndex ${p.outcomeIndex}`,
+                "data-api",
+                undefined,
+                "outcomeIndex"
+              );
+            }
+            amounts[p.outcomeIndex] = amounts[p.outcomeIndex]! + amountOf(p);
+          }
+          if (amounts.every((a) => a === 0n)) {
+            throw new InvalidArgumentError("Position balance is zero");
+          }
+          txs = [createNegRiskRedeemTx({ conditionId: first.conditionId, amounts })];
+        } else {
+          if (group.every((p) => amountOf(p) === 0n)) {
+            throw new InvalidArgumentError("Position balance is zero");
+          }
+          // One CTF call redeems both outcomes; index sets with no balance pay out nothing.
+          txs = [createRedeemTx({ conditionId: first.conditionId, indexSets: [1n, 2n] })];
+        }
+        pending.push({ report, txs });
+      } catch (err: any) {
+        report.reason = err?.message ?? "Failed to build redeem transaction";
+      }
+    }
+
+    await this.executeConditionBatches(backend, pending, {
+      batchSize,
+      successStatus: "redeemed",
+      describe: (count) => `Redeem positions for ${count} condition(s)`,
+      safeAddress,
+      simulate: options?.simulate ?? false,
+      wait: options,
+    });
+
+    return { reports, truncated };
+  }
+
+  /**
+   * Merges full sets (YES + NO) of every mergeable position of the Safe back into collateral.
+   * For each condition the merged amount is the smaller of the two outcome balances.
+   * With dryRun=true, nothing is submitted, the reports describe the plan and backend may be
+   * undefined.
+   */
+  async mergeAllMergeable(
+    backend: ExecutionBackend | undefined,
+    safeAddress: HexAddress,
+    options?: MergeAllOptions
+  ): Promise<MergeAllResult> {
+    const batchSize = Math.max(1, Math.floor(options?.batchSize ?? DEFAULT_MERGE_BATCH_SIZE));
+    const dryRun = options?.dryRun ?? false;
+    if (!backend && !dryRun) {
+      throw new InvalidArgumentError("backend is required unless dryRun is true");
+    }
+
+    const { positions, truncated } = await this.getAllPositions(safeAddress, {
+      mergeable: true,
+      sizeThreshold: 0,
+    });
+    const amountOf = await this.resolvePositionAmounts(
+      safeAddress,
+      positions,
+      options?.checkOnChainBalances ?? true
+    );
+
+    const groups = groupPositionsByCondition(positions);
+
+    const reports: MergeConditionReport[] = [];
+    const pending: Array<{ report: MergeConditionReport; txs: SafeTransaction[] }> = [];
+
+    for (const group of groups.values()) {
+      const first = group[0]!;
+      const balances = [0n, 0n];
+      let unexpectedOutcome: number | undefined;
+      for (const p of group) {
+        if (p.outcomeIndex !== 0 && p.outcomeIndex !== 1) {
+          unexpectedOutcome = p.outcomeIndex;
+          continue;
+        }
+        balances[p.outcomeIndex] = balances[p.outcomeIndex]! + amountOf(p);
+      }
+
+      const amount = balances[0]! < balances[1]! ? balances[0]! : balances[1]!;
+      const report: MergeConditionReport = {
+        conditionId: first.conditionId,
+        negativeRisk: Boolean(first.negativeRisk),
+        status: "planned",
+        partition: [1n, 2n],
+        amount,
+      };
+      reports.push(report);
+
+      if (unexpectedOutcome !== undefined) {
+        report.status = "skipped";
+        report.reason = `Unexpected outcomeIndex ${unexpectedOutcome}`;
+        continue;
+      }
+      if (amount <= 0n) {
+        report.status = "skipped";
+        report.reason = "Missing complementary outcome balance";
+        continue;
+      }
+
+      const tx = report.negativeRisk
+        ? createNegRiskMergePositionsTx({ conditionId: first.conditionId, amount })
+        : createMergePositionsTx({
+            conditionId: first.conditionId,
+            partition: report.partition,
+            amount,
+          });
+      pending.push({ report, txs: [tx] });
+    }
+
+    if (dryRun || !backend) return { reports, truncated };
+
+    await this.executeConditionBatches(backend, pending, {
+      batchSize,
+      successStatus: "merged",
+      describe: (count) => `Merge positions for ${count} condition(s)`,
+      safeAddress,
+      simulate: options?.simulate ?? false,
+      wait: options,
+    });
+
+    return { reports, truncated };
+  }
+
+  async mergePositions(
+    backend: ExecutionBackend,
+    params: MergePositionsParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
     const tx = createMergePositionsTx(params);
-    const response = await relayClient.execute(
+    return await this.executeTxs(
+      backend,
       [tx],
-      `Merge positions for condition ${params.conditionId}`
+      `Merge positions for condition ${params.conditionId}`,
+      options
     );
-    await response.wait();
   }
 
-  async transferUsdc(relayClient: RelayClient, params: UsdcTransferParams): Promise<void> {
+  async transferUsdc(
+    backend: ExecutionBackend,
+    params: UsdcTransferParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
     const tx = createUsdcTransferTx(params);
-    const response = await relayClient.execute([tx], "Transfer USDCe");
-    await response.wait();
+    return await this.executeTxs(backend, [tx], "Transfer USDCe", options);
   }
 
-  async splitPositions(relayClient: RelayClient, params: SplitPositionParams): Promise<void> {
+  async splitPositions(
+    backend: ExecutionBackend,
+    params: SplitPositionParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
     const tx = createSplitPositionTx(params);
-    const response = await relayClient.execute(
+    return await this.executeTxs(
+      backend,
+      [tx],
+      `Split positions for condition ${params.conditionId}`,
+      options
+    );
+  }
+
+  /**
+   * Converts NO positions on the given questions of a neg-risk event into YES positions
+   * on the remaining questions plus collateral.
+   * questionIndices refer to each market's questionIndex within the event (0-based).
+   */
+  async convertPositions(
+    backend: ExecutionBackend,
+    params: { event: PolymarketEvent; questionIndices: number[]; amount: bigint },
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
+    const marketId = params.event.negRiskMarketID;
+    if (!marketId) {
+      throw new InvalidArgumentError("event.negRiskMarketID is required to convert positions");
+    }
+    if (params.questionIndices.length === 0) {
+      throw new InvalidArgumentError("questionIndices must not be empty");
+    }
+    if (params.amount <= 0n) {
+      throw new InvalidArgumentError("amount must be positive");
+    }
+
+    let indexSet = 0n;
+    for (const idx of params.questionIndices) {
+      if (!Number.isInteger(idx) || idx < 0 || idx > 255) {
+        throw new InvalidArgumentError(`Invalid question index: ${idx}`);
+      }
+      indexSet |= 1n << BigInt(idx);
+    }
+
+    const tx = createConvertPositionsTx({
+      marketId,
+      indexSet,
+      amount: params.amount,
+    });
+    return await this.executeTxs(
+      backend,
       [tx],
-      `Split positions for condition ${params.conditionId}`
+      `Convert positions for neg-risk market ${marketId}`,
+      options
     );
-    await response.wait();
   }
 
-  async approveUsdc(relayClient: RelayClient, params: UsdcApproveParams): Promise<void> {
+  async approveUsdc(
+    backend: ExecutionBackend,
+    params: UsdcApproveParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
     const tx = createUsdcApproveTx(params);
-    const response = await relayClient.execute([tx], "Approve USDCe");
-    await response.wait();
+    return await this.executeTxs(backend, [tx], "Approve USDCe", options);
   }
 
   async approveAndTransferUsdc(
-    relayClient: RelayClient,
-    params: ApproveAndTransferUsdcParams
-  ): Promise<void> {
+    backend: ExecutionBackend,
+    params: ApproveAndTransferUsdcParams,
+    options?: ExecuteOptions
+  ): Promise<RelayExecutionResult> {
     const txs = createApproveAndTransferUsdcTxs(params);
-    const response = await relayClient.execute(txs, "Approve and transfer");
-    await response.wait();
+    return await this.executeTxs(backend, txs, "Approve and transfer", options);
   }
 }
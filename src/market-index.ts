@@ -0,0 +1,327 @@
+import type { PolymarketDataClient, TokenMarket } from "./data.js";
+import { ApiHttpError, MarketNotFoundError } from "./errors.js";
+import type {
+  MarketIndexEntry,
+  MarketIndexStorage,
+  TickSize,
+  TokenBookRecord,
+  TokenMarketRecord,
+  TokenMetadata,
+} from "./types.js";
+
+const DEFAULT_IMMUTABLE_TTL_MS = 24 * 60 * 60_000;
+const DEFAULT_MUTABLE_TTL_MS = 60_000;
+
+export class InMemoryMarketIndexStorage implements MarketIndexStorage {
+  private readonly entries = new Map<string, MarketIndexEntry>();
+
+  async get(tokenId: string): Promise<MarketIndexEntry | undefined> {
+    return this.entries.get(tokenId);
+  }
+
+  async set(tokenId: string, entry: MarketIndexEntry): Promise<void> {
+    this.entries.set(tokenId, entry);
+  }
+
+  async delete(tokenId: string): Promise<void> {
+    this.entries.delete(tokenId);
+  }
+}
+
+/**
+ * Persists the index as a single JSON file (Node.js only).
+ * The file is read once on first access and rewritten after every change.
+ */
+export class JsonFileMarketIndexStorage implements MarketIndexStorage {
+  private entries: Map<string, MarketIndexEntry> | undefined;
+  private loading: Promise<Map<string, MarketIndexEntry>> | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(tokenId: string): Promise<MarketIndexEntry | undefined> {
+    return (await this.load()).get(tokenId);
+  }
+
+  async set(tokenId: string, entry: MarketIndexEntry): Promise<void> {
+    (await this.load()).set(tokenId, entry);
+    await this.save();
+  }
+
+  async delete(tokenId: string): Promise<void> {
+    if ((await this.load()).delete(tokenId)) await this.save();
+  }
+
+  private async load(): Promise<Map<string, MarketIndexEntry>> {
+    if (this.entries) return this.entries;
+    this.loading ??= (async () => {
+      const fs = await import("node:fs/promises");
+      let json: Record<string, MarketIndexEntry> = {};
+      try {
+        json = JSON.parse(await fs.readFile(this.filePath, "utf8")) as Record<string, MarketIndexEntry>;
+      } catch (err: any) {
+        if (err?.code !== "ENOENT") throw err;
+      }
+      this.entries = new Map(Object.entries(json));
+      return this.entries;
+    })();
+    return await this.loading;
+  }
+
+  /**
+   * Writes are serialized and go through a temp file + rename so a crash never leaves a partial file.
+   */
+  private async save(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.entries ?? []));
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const fs = await import("node:fs/promises");
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, snapshot, "utf8");
+        await fs.rename(tmpPath, this.filePath);
+      });
+    await this.writing;
+  }
+}
+
+function uniqueTokenIds(tokenIds: string[]): string[] {
+  return Array.from(new Set(tokenIds.map((t) => String(t).trim()).filter(Boolean)));
+}
+
+function marketRecordFrom(match: TokenMarket, fetchedAtMs: number): TokenMarketRecord {
+  const negRisk = match.market?.negRisk ?? match.clobMarket?.neg_risk;
+  const acceptingOrders = match.market?.acceptingOrders ?? match.clobMarket?.accepting_orders;
+  return {
+    conditionId: match.conditionId,
+    question: match.question,
+    outcomeIndex: match.outcomeIndex,
+    outcome: match.outcome,
+    ...(typeof negRisk === "boolean" ? { negRisk } : {}),
+    ...(typeof acceptingOrders === "boolean" ? { acceptingOrders } : {}),
+    fetchedAtMs,
+  };
+}
+
+/**
+ * Caches token → market facts (conditionId, outcome, negRisk) and order book facts
+ * (tickSize, minOrderSize) on top of PolymarketDataClient.
+ *
+ * Immutable facts are kept for immutableTtlMs; mutable ones (tick size, accepting orders)
+ * for mutableTtlMs.
+ */
+export class MarketIndex {
+  private readonly dataClient: PolymarketDataClient;
+  private readonly storage: MarketIndexStorage;
+  private readonly immutableTtlMs: number;
+  private readonly mutableTtlMs: number;
+  private readonly now: () => number;
+  private readonly inflightMarkets = new Map<string, Promise<void>>();
+  private readonly inflightBooks = new Map<string, Promise<void>>();
+
+  constructor(params: {
+    dataClient: PolymarketDataClient;
+    /**
+     * Default: InMemoryMarketIndexStorage.
+     */
+    storage?: MarketIndexStorage;
+    /**
+     * Default: 24h. TTL of conditionId, question, outcome labels and negRisk.
+     */
+    immutableTtlMs?: number;
+    /**
+     * Default: 60s. TTL of tickSize, minOrderSize and acceptingOrders.
+     */
+    mutableTtlMs?: number;
+    now?: () => number;
+  }) {
+    this.dataClient = params.dataClient;
+    this.storage = params.storage ?? new InMemoryMarketIndexStorage();
+    this.immutableTtlMs = params.immutableTtlMs ?? DEFAULT_IMMUTABLE_TTL_MS;
+    this.mutableTtlMs = params.mutableTtlMs ?? DEFAULT_MUTABLE_TTL_MS;
+    this.now = params.now ?? Date.now;
+  }
+
+  /**
+   * Full metadata for a token. Throws MarketNotFoundError when the token's market cannot be found.
+   */
+  async getTokenMetadata(
+    tokenId: string,
+    options?: { includeAcceptingOrders?: boolean }
+  ): Promise<TokenMetadata> {
+    const safeTokenId = String(tokenId).trim();
+    const found = (await this.getTokensMetadata([safeTokenId], options))[safeTokenId];
+    if (!found) {
+      throw new MarketNotFoundError(safeTokenId);
+    }
+    return found;
+  }
+
+  /**
+   * Batch variant of getTokenMetadata. Unresolvable tokens are omitted.
+   * Stale market facts are refreshed with one batched Gamma lookup, stale book facts with one POST /books.
+   * acceptingOrders is only reported while it is within the mutable TTL; with
+   * options.includeAcceptingOrders, market facts older than that are refetched to report it.
+   */
+  async getTokensMetadata(
+    tokenIds: string[],
+    options?: { includeAcceptingOrders?: boolean }
+  ): Promise<Record<string, TokenMetadata>> {
+    const ids = uniqueTokenIds(tokenIds);
+    const marketTtlMs = options?.includeAcceptingOrders ? this.mutableTtlMs : this.immutableTtlMs;
+
+    let entries = await this.readEntries(ids);
+    const staleMarkets = ids.filter((id) => {
+      const market = entries.get(id)?.market;
+      return !market || this.now() - market.fetchedAtMs > marketTtlMs;
+    });
+    if (staleMarkets.length > 0) {
+      await this.dedupe(this.inflightMarkets, staleMarkets, (missing) => this.refreshMarkets(missing));
+      entries = await this.readEntries(ids);
+    }
+
+    const staleBooks = ids.filter((id) => entries.get(id)?.market && this.isBookStale(entries.get(id)));
+    if (staleBooks.length > 0) {
+      try {
+        await this.dedupe(this.inflightBooks, staleBooks, (missing) => this.refreshBooks(missing));
+      } catch (err) {
+        // Resolved markets have no book any more; the market facts are still worth returning.
+        if (!(err instanceof ApiHttpError) || err.retryable) throw err;
+      }
+      entries = await this.readEntries(ids);
+    }
+
+    const now = this.now();
+    const out: Record<string, TokenMetadata> = {};
+    for (const id of ids) {
+      const { market, book } = entries.get(id) ?? {};
+      if (!market) continue;
+      const negRisk = market.negRisk ?? book?.negRisk;
+      const acceptingOrdersFresh = now - market.fetchedAtMs <= this.mutableTtlMs;
+      out[id] = {
+        tokenId: id,
+        conditionId: market.conditionId,
+        question: market.question,
+        outcomeIndex: market.outcomeIndex,
+        outcome: market.outcome,
+        ...(negRisk !== undefined ? { negRisk } : {}),
+        ...(acceptingOrdersFresh && market.acceptingOrders !== undefined
+          ? { acceptingOrders: market.acceptingOrders }
+          : {}),
+        ...(book ? { tickSize: book.tickSize } : {}),
+        ...(book?.minOrderSize !== undefined ? { minOrderSize: book.minOrderSize } : {}),
+      };
+    }
+    return out;
+  }
+
+  /**
+   * Only the order book facts needed to sign an order (one POST /books when stale).
+   * Concurrent calls for the same token share a single request.
+   * Returns {} when the CLOB has no book for the token.
+   */
+  async getTradingMeta(
+    tokenId: string
+  ): Promise<{ tickSize?: TickSize; negRisk?: boolean; minOrderSize?: number }> {
+    const safeTokenId = String(tokenId).trim();
+    let entry = await this.storage.get(safeTokenId);
+    if (this.isBookStale(entry)) {
+      await this.dedupe(this.inflightBooks, [safeTokenId], (missing) => this.refreshBooks(missing));
+      entry = await this.storage.get(safeTokenId);
+    }
+
+    const book = entry?.book;
+    if (!book) return {};
+    return {
+      tickSize: book.tickSize,
+      negRisk: book.negRisk,
+      ...(book.minOrderSize !== undefined ? { minOrderSize: book.minOrderSize } : {}),
+    };
+  }
+
+  /**
+   * Warms the book facts of many tokens with a single POST /books.
+   * Tokens that are still fresh or already being fetched are skipped.
+   */
+  async prefetchTradingMeta(tokenIds: string[]): Promise<void> {
+    const entries = await this.readEntries(uniqueTokenIds(tokenIds));
+    const stale = Array.from(entries.keys()).filter((id) => this.isBookStale(entries.get(id)));
+    if (stale.length === 0) return;
+    await this.dedupe(this.inflightBooks, stale, (missing) => this.refreshBooks(missing));
+  }
+
+  /**
+   * Drops everything cached for a token (e.g. after a tick_size_change event).
+   */
+  async invalidate(tokenId: string): Promise<void> {
+    await this.storage.delete(String(tokenId).trim());
+  }
+
+  private isBookStale(entry: MarketIndexEntry | undefined): boolean {
+    return !entry?.book || this.now() - entry.book.fetchedAtMs > this.mutableTtlMs;
+  }
+
+  private async readEntries(tokenIds: string[]): Promise<Map<string, MarketIndexEntry>> {
+    const entries = new Map<string, MarketIndexEntry>();
+    for (const id of tokenIds) {
+      entries.set(id, (await this.storage.get(id)) ?? {});
+    }
+    return entries;
+  }
+
+  /**
+   * Runs fetch for the token IDs without a request in flight and waits for those that have one.
+   */
+  private async dedupe(
+    inflight: Map<string, Promise<void>>,
+    tokenIds: string[],
+    fetch: (tokenIds: string[]) => Promise<void>
+  ): Promise<void> {
+    const waits: Promise<void>[] = [];
+    const missing: string[] = [];
+    for (const id of tokenIds) {
+      const pending = inflight.get(id);
+      if (pending) waits.push(pending);
+      else missing.push(id);
+    }
+
+    if (missing.length > 0) {
+      const request = fetch(missing).finally(() => {
+        for (const id of missing) {
+          if (inflight.get(id) === request) inflight.delete(id);
+        }
+      });
+      for (const id of missing) inflight.set(id, request);
+      waits.push(request);
+    }
+
+    await Promise.all(waits);
+  }
+
+  private async refreshMarkets(tokenIds: string[]): Promise<void> {
+    const found = await this.dataClient.getTokenMarkets(tokenIds);
+    const now = this.now();
+    for (const [id, match] of Object.entries(found)) {
+      const entry = { ...(await this.storage.get(id)), market: marketRecordFrom(match, now) };
+      await this.storage.set(id, entry);
+    }
+  }
+
+  private async refreshBooks(tokenIds: string[]): Promise<void> {
+    const books = await this.dataClient.getOrderBookSummaries(tokenIds);
+    const now = this.now();
+    const requested = new Set(tokenIds);
+    for (const summary of books) {
+      if (!requested.has(summary.asset_id)) continue;
+      const minOrderSize = Number(summary.min_order_size);
+      const book: TokenBookRecord = {
+        tickSize: summary.tick_size as TickSize,
+        negRisk: summary.neg_risk,
+        ...(Number.isFinite(minOrderSize) ? { minOrderSize } : {}),
+        fetchedAtMs: now,
+      };
+      const entry = { ...(await this.storage.get(summary.asset_id)), book };
+      await this.storage.set(summary.asset_id, entry);
+    }
+  }
+}
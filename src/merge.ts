@@ -3,23 +3,17 @@ import {
   OperationType,
   type SafeTransaction,
 } from "@polymarket/builder-relayer-client";
-import { CTF_CONTRACT_ADDRESS, USDC_E_CONTRACT_ADDRESS } from "./tokens.js";
-import type { HexAddress, MergePositionsParams } from "./types.js";
-
-const ctfAbi = [
-  {
-    name: "mergePositions",
-    type: "function",
-    inputs: [
-      { name: "collateralToken", type: "address" },
-      { name: "parentCollectionId", type: "bytes32" },
-      { name: "conditionId", type: "bytes32" },
-      { name: "partition", type: "uint256[]" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [],
-  },
-] as const;
+import { ctfAbi, negRiskAdapterAbi } from "./abis.js";
+import {
+  CTF_CONTRACT_ADDRESS,
+  NEG_RISK_ADAPTER_ADDRESS,
+  USDC_E_CONTRACT_ADDRESS,
+} from "./tokens.js";
+import type {
+  HexAddress,
+  MergePositionsParams,
+  NegRiskMergePositionsParams,
+} from "./types.js";
 
 /**
  * Builds a SafeTransaction for CTF mergePositions.
@@ -53,4 +47,28 @@ export function createMergePositionsTx(params: MergePositionsParams): SafeTransa
   };
 }
 
+/**
+ * Builds a SafeTransaction for NegRiskAdapter mergePositions (full YES + NO set).
+ * Note: amount is a raw uint256 in outcome token base units.
+ */
+export function createNegRiskMergePositionsTx(
+  params: NegRiskMergePositionsParams
+): SafeTransaction {
+  const adapterAddress = (params.negRiskAdapterAddress ??
+    NEG_RISK_ADAPTER_ADDRESS) as HexAddress;
+
+  const data = encodeFunctionData({
+    abi: negRiskAdapterAbi,
+    functionName: "mergePositions",
+    args: [params.conditionId as `0x${string}`, params.amount],
+  });
+
+  return {
+    to: adapterAddress,
+    operation: OperationType.Call,
+    data,
+    value: "0",
+  };
+}
+
 
@@ -0,0 +1,444 @@
+import type { ClobClient, Trade } from "@polymarket/clob-client";
+import { createPublicClient, http } from "viem";
+import { polygon } from "viem/chains";
+
+import { DEFAULT_CLOB_API_URL } from "./constants.js";
+import { assertClobResponse } from "./clob-errors.js";
+import type { RequestLayer } from "./http.js";
+import type {
+  CreateOrderResult,
+  OrderFill,
+  OrderLifecycleEvent,
+  OrderSnapshot,
+  SettlementStatus,
+  TrackedOrder,
+  TrackedOrderStatus,
+} from "./types.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const DEFAULT_SETTLEMENT_TIMEOUT_MS = 10 * 60_000;
+
+const MINED_TRADE_STATES = ["MINED", "CONFIRMED"];
+const FAILED_TRADE_STATE = "FAILED";
+const FINAL_ORDER_STATUSES: TrackedOrderStatus[] = ["filled", "canceled", "expired"];
+
+/**
+ * The CLOB calls OrderTracker needs; a real ClobClient (L2 auth) or a fake in tests.
+ */
+export type OrderTrackerClob = Pick<ClobClient, "getOrder" | "getTrades">;
+
+/**
+ * Parsed view of a CLOB order as returned by GET /data/order/{id}.
+ */
+export function toOrderSnapshot(order: any): OrderSnapshot {
+  const expiration = Number(order.expiration ?? 0);
+  return {
+    orderId: String(order.id),
+    status: String(order.status ?? "").toUpperCase(),
+    tokenId: String(order.asset_id ?? ""),
+    conditionId: String(order.market ?? ""),
+    side: String(order.side).toUpperCase() === "SELL" ? "SELL" : "BUY",
+    price: Number(order.price),
+    originalSize: Number(order.original_size),
+    sizeMatched: Number(order.size_matched ?? 0),
+    ...(order.outcome ? { outcome: String(order.outcome) } : {}),
+    ...(order.order_type ? { orderType: String(order.order_type).toUpperCase() } : {}),
+    ...(expiration > 0 ? { expiresAtMs: expiration * 1000 } : {}),
+    raw: order,
+  };
+}
+
+/**
+ * Fills of orderId in a trade: the taker side, or each maker order entry that is ours.
+ */
+function fillsOf(orderId: string, trade: Trade): OrderFill[] {
+  const base = {
+    tradeId: String(trade.id),
+    status: String(trade.status ?? "").toUpperCase(),
+    ...(trade.transaction_hash ? { transactionHash: trade.transaction_hash } : {}),
+  };
+  const out: OrderFill[] = [];
+  if (trade.taker_order_id === orderId) {
+    out.push({ ...base, role: "TAKER", size: Number(trade.size), price: Number(trade.price) });
+  }
+  for (const maker of trade.maker_orders ?? []) {
+    if (maker.order_id !== orderId) continue;
+    out.push({
+      ...base,
+      role: "MAKER",
+      size: Number(maker.matched_amount),
+      price: Number(maker.price),
+    });
+  }
+  return out;
+}
+
+function defaultReceiptStatus(rpcUrl: string) {
+  const publicClient = createPublicClient({ chain: polygon, transport: http(rpcUrl) });
+  return async (hash: string): Promise<SettlementStatus> => {
+    try {
+      const receipt = await publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+      return receipt.status === "success" ? "mined" : "failed";
+    } catch {
+      // Not mined yet (or the RPC is unavailable); try again on the next poll.
+      return "pending";
+    }
+  };
+}
+
+type Entry = {
+  order: TrackedOrder;
+  placedEmitted: boolean;
+  /**
+   * filledSize reported by the last fill event.
+   */
+  reportedFill: number;
+  closedEmitted: boolean;
+  reportedSettlements: Set<string>;
+  /**
+   * When each transaction hash was first seen, for the settlement timeout.
+   */
+  settlementSeenAtMs: Map<string, number>;
+  fills: Map<string, OrderFill>;
+};
+
+/**
+ * Follows placed orders until they are filled, canceled or expired and their settlement
+ * transactions are mined (or failed), emitting OrderLifecycleEvents along the way.
+ *
+ * Each poll reads every active order (GET /data/order/{id}) and the trades of their tokens
+ * since tracking started (GET /data/trades). Fill sizes come from the order's size_matched,
+ * fill prices from the trades. Settlement uses the trade status of each transaction hash,
+ * falling back to the transaction receipt when rpcUrl or getReceiptStatus is given. Hashes
+ * neither source resolves within settlementTimeoutMs become "unknown", so every order ends final.
+ */
+export class OrderTracker {
+  private readonly clob: OrderTrackerClob;
+  private readonly requestLayer: RequestLayer | undefined;
+  private readonly clobApiUrl: string;
+  private readonly getReceiptStatus: ((hash: string) => Promise<SettlementStatus>) | undefined;
+  private readonly settlementTimeoutMs: number;
+  private readonly onListenerError: ((err: unknown, event: OrderLifecycleEvent) => void) | undefined;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, Entry>();
+  private readonly listeners = new Set<(event: OrderLifecycleEvent) => void>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(params: {
+    clobClient: OrderTrackerClob;
+    /**
+     * Used to label errors and for the request layer's per-URL rate limits.
+     * Default: DEFAULT_CLOB_API_URL.
+     */
+    clobApiUrl?: string;
+    requestLayer?: RequestLayer;
+    /**
+     * Polygon RPC used to read settlement receipts that trades do not report.
+     */
+    rpcUrl?: string;
+    /**
+     * Overrides the receipt lookup (takes precedence over rpcUrl).
+     */
+    getReceiptStatus?: (transactionHash: string) => Promise<SettlementStatus>;
+    /**
+     * Default: 10 minutes. How long a transaction hash may stay pending before it is reported as "unknown".
+     */
+    settlementTimeoutMs?: number;
+    /**
+     * Receives errors thrown by event listeners (default: ignored). Other listeners still get the event.
+     */
+    onListenerError?: (err: unknown, event: OrderLifecycleEvent) => void;
+    now?: () => number;
+  }) {
+    this.clob = params.clobClient;
+    this.requestLayer = params.requestLayer;
+    this.clobApiUrl = params.clobApiUrl ?? DEFAULT_CLOB_API_URL;
+    this.getReceiptStatus =
+      params.getReceiptStatus ?? (params.rpcUrl ? defaultReceiptStatus(params.rpcUrl) : undefined);
+    this.settlementTimeoutMs = params.settlementTimeoutMs ?? DEFAULT_SETTLEMENT_TIMEOUT_MS;
+    this.onListenerError = params.onListenerError;
+    this.now = params.now ?? Date.now;
+  }
+
+  /**
+   * Subscribes to lifecycle events. Returns the unsubscribe function.
+   */
+  on(listener: (event: OrderLifecycleEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts tracking an order by ID or by the result of createLimitOrder/createMarketOrder.
+   * A successful result emits "placed" right away; failed results (no orderId) are ignored.
+   * Returns the tracked state, or undefined when nothing was tracked.
+   */
+  track(order: string | CreateOrderResult): TrackedOrder | undefined {
+    const orderId = typeof order === "string" ? order : order.orderId;
+    if (!orderId) return undefined;
+    const existing = this.entries.get(orderId);
+    if (existing) return existing.order;
+
+    const now = this.now();
+    const settlements: Record<string, SettlementStatus> = {};
+    if (typeof order !== "string") {
+      for (const hash of order.transactionHashes ?? []) settlements[hash] = "pending";
+    }
+    const entry: Entry = {
+      order: {
+        orderId,
+        status: "pending",
+        filledSize: 0,
+        fills: [],
+        settlements,
+        final: false,
+        trackedSinceMs: now,
+        updatedAtMs: now,
+      },
+      placedEmitted: false,
+      reportedFill: 0,
+      closedEmitted: false,
+      reportedSettlements: new Set(),
+      settlementSeenAtMs: new Map(Object.keys(settlements).map((hash) => [hash, now])),
+      fills: new Map(),
+    };
+    this.entries.set(orderId, entry);
+
+    if (typeof order !== "string" && order.success) {
+      const events: OrderLifecycleEvent[] = [];
+      this.emitPlaced(entry, events);
+      this.dispatch(events);
+    }
+    return entry.order;
+  }
+
+  untrack(orderId: string): void {
+    this.entries.delete(orderId);
+  }
+
+  /**
+   * Current state of a tracked order (final orders stay available until untracked).
+   */
+  get(orderId: string): TrackedOrder | undefined {
+    return this.entries.get(orderId)?.order;
+  }
+
+  getAll(): TrackedOrder[] {
+    return Array.from(this.entries.values(), (e) => e.order);
+  }
+
+  /**
+   * Polls every non-final order once and returns the events it emitted.
+   * Throws ApiHttpError when the CLOB rejects a request; state gathered before the failure is kept.
+   */
+  async poll(): Promise<OrderLifecycleEvent[]> {
+    const active = Array.from(this.entries.values()).filter((e) => !e.order.final);
+    const events: OrderLifecycleEvent[] = [];
+    try {
+      for (const entry of active) {
+        const snapshot = await this.fetchOrder(entry.order.orderId);
+        if (snapshot) this.applySnapshot(entry, snapshot);
+      }
+
+      const byToken = new Map<string, Entry[]>();
+      for (const entry of active) {
+        const tokenId = entry.order.tokenId;
+        if (!tokenId) continue;
+        byToken.set(tokenId, [...(byToken.get(tokenId) ?? []), entry]);
+      }
+      for (const [tokenId, entries] of byToken) {
+        const since = Math.min(...entries.map((e) => e.order.trackedSinceMs));
+        const trades = await this.fetchTrades(tokenId, since);
+        for (const entry of entries) this.applyTrades(entry, trades);
+      }
+
+      for (const entry of active) {
+        await this.refreshSettlements(entry);
+        this.emitTransitions(entry, events);
+      }
+    } finally {
+      this.dispatch(events);
+    }
+    return events;
+  }
+
+  /**
+   * Polls in the background every pollIntervalMs until stop() is called.
+   * Poll errors go to onError (default: ignored) and polling continues.
+   */
+  start(options?: { pollIntervalMs?: number; onError?: (err: unknown) => void }): void {
+    if (this.running) return;
+    this.running = true;
+    const intervalMs = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const loop = async () => {
+      try {
+        await this.poll();
+      } catch (err) {
+        options?.onError?.(err);
+      }
+      if (this.running) this.timer = setTimeout(loop, intervalMs);
+    };
+    void loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async fetchOrder(orderId: string): Promise<OrderSnapshot | undefined> {
+    const url = `${this.clobApiUrl}/data/order`;
+    const res = await this.callClob(url, () => this.clob.getOrder(orderId));
+    // Orders the CLOB has not indexed yet (e.g. delayed) come back empty.
+    if (!res?.id) return undefined;
+    return toOrderSnapshot(res);
+  }
+
+  private async fetchTrades(tokenId: string, sinceMs: number): Promise<Trade[]> {
+    const url = `${this.clobApiUrl}/data/trades`;
+    const res = await this.callClob(url, () =>
+      // One minute of slack: match_time is in seconds and the order may predate track().
+      this.clob.getTrades({ asset_id: tokenId, after: String(Math.floor(sinceMs / 1000) - 60) })
+    );
+    return Array.isArray(res) ? res : [];
+  }
+
+  private async callClob<T>(url: string, fn: () => Promise<T>): Promise<T> {
+    const res = this.requestLayer ? await this.requestLayer.call(url, fn) : await fn();
+    return assertClobResponse(res, url);
+  }
+
+  private applySnapshot(entry: Entry, snapshot: OrderSnapshot): void {
+    const order = entry.order;
+    order.tokenId = snapshot.tokenId;
+    order.conditionId = snapshot.conditionId;
+    order.side = snapshot.side;
+    order.price = snapshot.price;
+    order.originalSize = snapshot.originalSize;
+    order.filledSize = Math.max(order.filledSize, snapshot.sizeMatched);
+
+    const filled =
+      snapshot.status === "MATCHED" ||
+      (snapshot.originalSize > 0 && order.filledSize >= snapshot.originalSize);
+    if (filled) {
+      order.status = "filled";
+    } else if (snapshot.status === "LIVE") {
+      order.status = order.filledSize > 0 ? "partially_filled" : "live";
+    } else if (snapshot.status.startsWith("CANCELED") || snapshot.status === "INVALID") {
+      // The CLOB reports expired GTD orders as canceled.
+      const expired = snapshot.expiresAtMs !== undefined && snapshot.expiresAtMs <= this.now();
+      order.status = expired ? "expired" : "canceled";
+    }
+    order.updatedAtMs = this.now();
+  }
+
+  private applyTrades(entry: Entry, trades: Trade[]): void {
+    const order = entry.order;
+    for (const trade of trades) {
+      fillsOf(order.orderId, trade).forEach((fill, i) => {
+        entry.fills.set(`${fill.tradeId}:${fill.role}:${i}`, fill);
+        if (fill.transactionHash && !order.settlements[fill.transactionHash]) {
+          order.settlements[fill.transactionHash] = "pending";
+          entry.settlementSeenAtMs.set(fill.transactionHash, this.now());
+        }
+      });
+    }
+
+    order.fills = Array.from(entry.fills.values());
+    const live = order.fills.filter((f) => f.status !== FAILED_TRADE_STATE);
+    const size = live.reduce((sum, f) => sum + f.size, 0);
+    if (size > 0) {
+      order.averageFillPrice = live.reduce((sum, f) => sum + f.price * f.size, 0) / size;
+    }
+    // Until the order itself is readable, the trades are the only source for the fill size.
+    if (order.originalSize === undefined) order.filledSize = Math.max(order.filledSize, size);
+  }
+
+  private async refreshSettlements(entry: Entry): Promise<void> {
+    const order = entry.order;
+    for (const [hash, status] of Object.entries(order.settlements)) {
+      if (status !== "pending") continue;
+      const states = order.fills.filter((f) => f.transactionHash === hash).map((f) => f.status);
+      if (states.some((s) => MINED_TRADE_STATES.includes(s))) {
+        order.settlements[hash] = "mined";
+      } else if (states.length > 0 && states.every((s) => s === FAILED_TRADE_STATE)) {
+        order.settlements[hash] = "failed";
+      } else if (this.getReceiptStatus) {
+        order.settlements[hash] = await this.getReceiptStatus(hash);
+      }
+
+      const seenAtMs = entry.settlementSeenAtMs.get(hash) ?? order.trackedSinceMs;
+      if (order.settlements[hash] === "pending" && this.now() - seenAtMs >= this.settlementTimeoutMs) {
+        order.settlements[hash] = "unknown";
+      }
+    }
+  }
+
+  private emitPlaced(entry: Entry, events: OrderLifecycleEvent[]): void {
+    if (entry.placedEmitted) return;
+    entry.placedEmitted = true;
+    events.push({ type: "placed", orderId: entry.order.orderId, order: entry.order });
+  }
+
+  /**
+   * Compares the state against what was already reported and queues the missing events,
+   * in lifecycle order: placed → fills → canceled/expired → settlements.
+   */
+  private emitTransitions(entry: Entry, events: OrderLifecycleEvent[]): void {
+    const order = entry.order;
+    if (order.status !== "pending") this.emitPlaced(entry, events);
+
+    const fillDelta = order.filledSize - entry.reportedFill;
+    if (fillDelta > 0) {
+      entry.reportedFill = order.filledSize;
+      events.push({
+        type: order.status === "filled" ? "filled" : "partially_filled",
+        orderId: order.orderId,
+        fillDelta,
+        order,
+      });
+    }
+
+    if (!entry.closedEmitted && (order.status === "canceled" || order.status === "expired")) {
+      entry.closedEmitted = true;
+      events.push({ type: order.status, orderId: order.orderId, order });
+    }
+
+    for (const [hash, status] of Object.entries(order.settlements)) {
+      if (status === "pending" || entry.reportedSettlements.has(hash)) continue;
+      entry.reportedSettlements.add(hash);
+      events.push({
+        type:
+          status === "mined"
+            ? "settlement_mined"
+            : status === "failed"
+              ? "settlement_failed"
+              : "settlement_unknown",
+        orderId: order.orderId,
+        transactionHash: hash,
+        order,
+      });
+    }
+
+    order.final =
+      FINAL_ORDER_STATUSES.includes(order.status) &&
+      Object.values(order.settlements).every((s) => s !== "pending");
+  }
+
+  private dispatch(events: OrderLifecycleEvent[]): void {
+    for (const event of events) {
+      for (const listener of this.listeners) {
+        // A throwing listener must not cost the other listeners (or later events) their delivery.
+        try {
+          listener(event);
+        } catch (err) {
+          this.onListenerError?.(err, event);
+        }
+      }
+    }
+  }
+}
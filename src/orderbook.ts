@@ -0,0 +1,273 @@
+import type { OrderBookSummary, OrderBookSummaryLevel } from "./data.js";
+import { InvalidArgumentError } from "./errors.js";
+import type { OrderSide } from "./types.js";
+
+/**
+ * Fixed-point decimals with 18 fractional digits. CLOB prices (<= 4 dp) times sizes (<= 6 dp)
+ * are therefore exact; only divisions (VWAP, bps, notional → size) round down at the 18th digit.
+ */
+const DECIMALS = 18;
+const ONE = 10n ** BigInt(DECIMALS);
+const BPS = 10_000n;
+
+/**
+ * Parses a non-negative decimal (plain or exponent notation) into 18-decimal fixed point.
+ * Digits past the 18th decimal are dropped.
+ */
+function toFixed(value: string | number, field: string): bigint {
+  const text = typeof value === "number" ? value.toString() : String(value).trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new InvalidArgumentError(`Invalid decimal for ${field}: ${String(value)}`);
+  }
+
+  const [, sign, intPart = "", fracPart = "", exp] = match;
+  let digits = `${intPart}${fracPart}`;
+  let pointAt = intPart.length + Number(exp ?? 0);
+  if (pointAt < 0) {
+    digits = `${"0".repeat(-pointAt)}${digits}`;
+    pointAt = 0;
+  }
+  digits = digits.padEnd(pointAt + DECIMALS, "0");
+  const fixed = BigInt(`${digits.slice(0, pointAt) || "0"}${digits.slice(pointAt, pointAt + DECIMALS)}`);
+  if (sign === "-" && fixed !== 0n) {
+    throw new InvalidArgumentError(`${field} must not be negative: ${String(value)}`);
+  }
+  return fixed;
+}
+
+function fromFixed(value: bigint): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const int = abs / ONE;
+  const frac = (abs % ONE).toString().padStart(DECIMALS, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${int}${frac ? `.${frac}` : ""}`;
+}
+
+function mul(a: bigint, b: bigint): bigint {
+  return (a * b) / ONE;
+}
+
+function div(a: bigint, b: bigint): bigint {
+  return (a * ONE) / b;
+}
+
+type Level = { price: bigint; size: bigint };
+
+/**
+ * Levels on the side an order of `side` consumes, best first:
+ * BUY walks the asks (lowest first), SELL walks the bids (highest first).
+ * The CLOB lists levels best-last, so they are always re-sorted here.
+ */
+function takerLevels(book: OrderBookSummary, side: OrderSide): Level[] {
+  const raw: OrderBookSummaryLevel[] = side === "BUY" ? book.asks : book.bids;
+  const levels = raw
+    .map((l) => ({ price: toFixed(l.price, "price"), size: toFixed(l.size, "size") }))
+    .filter((l) => l.size > 0n && l.price > 0n);
+  levels.sort((a, b) => {
+    const cmp = a.price < b.price ? -1 : a.price > b.price ? 1 : 0;
+    return side === "BUY" ? cmp : -cmp;
+  });
+  return levels;
+}
+
+function bestPrice(book: OrderBookSummary, side: OrderSide): bigint | undefined {
+  return takerLevels(book, side)[0]?.price;
+}
+
+function midFixed(book: OrderBookSummary): bigint | undefined {
+  const ask = bestPrice(book, "BUY");
+  const bid = bestPrice(book, "SELL");
+  if (ask === undefined || bid === undefined) return undefined;
+  return (ask + bid) / 2n;
+}
+
+/**
+ * Slippage of price against reference in bps, positive when worse for the taker.
+ */
+function slippageBps(side: OrderSide, price: bigint, reference: bigint): bigint {
+  const diff = side === "BUY" ? price - reference : reference - price;
+  return div(diff * BPS, reference);
+}
+
+export type DepthLevel = {
+  price: string;
+  size: string;
+  cumulativeSize: string;
+  /**
+   * Cumulative USDC value (price * size) up to and including this level.
+   */
+  cumulativeNotional: string;
+};
+
+export type FillEstimate = {
+  side: OrderSide;
+  /**
+   * Shares filled (<= requested size; for a notional request, the shares it buys/sells).
+   */
+  filledSize: string;
+  /**
+   * USDC paid (BUY) or received (SELL).
+   */
+  notional: string;
+  fullyFilled: boolean;
+  /**
+   * Volume-weighted average fill price. Absent when nothing fills.
+   */
+  vwap?: string;
+  /**
+   * Price of the last (worst) level touched.
+   */
+  worstPrice?: string;
+  bestPrice?: string;
+  midPrice?: string;
+  /**
+   * VWAP slippage from the mid in bps, positive when worse than mid.
+   */
+  slippageBps?: string;
+  /**
+   * Worst price slippage from the mid in bps.
+   */
+  worstSlippageBps?: string;
+  levelsConsumed: number;
+};
+
+export type MaxFillableSize = {
+  side: OrderSide;
+  limitPrice: string;
+  size: string;
+  notional: string;
+  vwap?: string;
+  worstPrice?: string;
+};
+
+/**
+ * Mid of best bid and best ask, or undefined when either side is empty.
+ */
+export function getMidPrice(book: OrderBookSummary): string | undefined {
+  const mid = midFixed(book);
+  return mid === undefined ? undefined : fromFixed(mid);
+}
+
+/**
+ * Cumulative depth of the side a taker order consumes (BUY → asks, SELL → bids), best level first.
+ */
+export function getBookDepth(book: OrderBookSummary, side: OrderSide): DepthLevel[] {
+  let cumulativeSize = 0n;
+  let cumulativeNotional = 0n;
+  return takerLevels(book, side).map((level) => {
+    cumulativeSize += level.size;
+    cumulativeNotional += mul(level.price, level.size);
+    return {
+      price: fromFixed(level.price),
+      size: fromFixed(level.size),
+      cumulativeSize: fromFixed(cumulativeSize),
+      cumulativeNotional: fromFixed(cumulativeNotional),
+    };
+  });
+}
+
+/**
+ * Walks the book for a taker order of `size` shares or `notional` USDC (exactly one of them)
+ * and reports the average fill price, worst price reached and slippage from the mid.
+ */
+export function estimateFill(
+  book: OrderBookSummary,
+  params: { side: OrderSide; size?: string | number; notional?: string | number }
+): FillEstimate {
+  if ((params.size === undefined) === (params.notional === undefined)) {
+    throw new InvalidArgumentError("Exactly one of size or notional is required");
+  }
+  const bySize = params.size !== undefined;
+  const target = bySize
+    ? toFixed(params.size!, "size")
+    : toFixed(params.notional!, "notional");
+  if (target <= 0n) {
+    throw new InvalidArgumentError(`${bySize ? "size" : "notional"} must be positive`);
+  }
+
+  let filledSize = 0n;
+  let notional = 0n;
+  let worst: bigint | undefined;
+  let levelsConsumed = 0;
+  // Set once a level covers whatever is left of the target. A notional target met part-way
+  // through a level can end below the target by the rounding of notional → size, and still
+  // counts as filled.
+  let covered = false;
+
+  for (const level of takerLevels(book, params.side)) {
+    const remaining = target - (bySize ? filledSize : notional);
+    if (remaining <= 0n) break;
+
+    const levelNotional = mul(level.price, level.size);
+    let takeSize = level.size;
+    if (bySize ? remaining <= level.size : remaining <= levelNotional) {
+      covered = true;
+      if (bySize) takeSize = remaining;
+      else if (remaining < levelNotional) takeSize = div(remaining, level.price);
+    }
+
+    if (takeSize > 0n) {
+      filledSize += takeSize;
+      notional += takeSize === level.size ? levelNotional : mul(level.price, takeSize);
+      worst = level.price;
+      levelsConsumed += 1;
+    }
+    if (covered) break;
+  }
+
+  const fullyFilled = covered || (bySize ? filledSize >= target : notional >= target);
+
+  const best = bestPrice(book, params.side);
+  const mid = midFixed(book);
+  const vwap = filledSize > 0n ? div(notional, filledSize) : undefined;
+
+  return {
+    side: params.side,
+    filledSize: fromFixed(filledSize),
+    notional: fromFixed(notional),
+    fullyFilled,
+    ...(vwap !== undefined ? { vwap: fromFixed(vwap) } : {}),
+    ...(worst !== undefined ? { worstPrice: fromFixed(worst) } : {}),
+    ...(best !== undefined ? { bestPrice: fromFixed(best) } : {}),
+    ...(mid !== undefined ? { midPrice: fromFixed(mid) } : {}),
+    ...(mid !== undefined && mid > 0n && vwap !== undefined
+      ? { slippageBps: fromFixed(slippageBps(params.side, vwap, mid)) }
+      : {}),
+    ...(mid !== undefined && mid > 0n && worst !== undefined
+      ? { worstSlippageBps: fromFixed(slippageBps(params.side, worst, mid)) }
+      : {}),
+    levelsConsumed,
+  };
+}
+
+/**
+ * Largest taker size fillable without trading through limitPrice
+ * (asks <= limitPrice for BUY, bids >= limitPrice for SELL).
+ */
+export function getMaxFillableSize(
+  book: OrderBookSummary,
+  params: { side: OrderSide; limitPrice: string | number }
+): MaxFillableSize {
+  const limit = toFixed(params.limitPrice, "limitPrice");
+
+  let size = 0n;
+  let notional = 0n;
+  let worst: bigint | undefined;
+  for (const level of takerLevels(book, params.side)) {
+    const within = params.side === "BUY" ? level.price <= limit : level.price >= limit;
+    if (!within) break;
+    size += level.size;
+    notional += mul(level.price, level.size);
+    worst = level.price;
+  }
+
+  return {
+    side: params.side,
+    limitPrice: fromFixed(limit),
+    size: fromFixed(size),
+    notional: fromFixed(notional),
+    ...(size > 0n ? { vwap: fromFixed(div(notional, size)) } : {}),
+    ...(worst !== undefined ? { worstPrice: fromFixed(worst) } : {}),
+  };
+}
@@ -3,27 +3,23 @@ import {
   OperationType,
   type SafeTransaction,
 } from "@polymarket/builder-relayer-client";
-import { CTF_CONTRACT_ADDRESS, USDC_E_CONTRACT_ADDRESS } from "./tokens.js";
-import type { RedeemParams } from "./types.js";
-
-const ctfAbi = [
-  {
-    inputs: [
-      { name: "collateralToken", type: "address" },
-      { name: "parentCollectionId", type: "bytes32" },
-      { name: "conditionId", type: "bytes32" },
-      { name: "indexSets", type: "uint256[]" },
-    ],
-    name: "redeemPositions",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
+import { ctfAbi, negRiskAdapterAbi } from "./abis.js";
+import {
+  CTF_CONTRACT_ADDRESS,
+  NEG_RISK_ADAPTER_ADDRESS,
+  USDC_E_CONTRACT_ADDRESS,
+} from "./tokens.js";
+import type {
+  HexAddress,
+  NegRiskRedeemParams,
+  RedeemIndexSetsParams,
+  RedeemParams,
+} from "./types.js";
 
-export function createRedeemTx(params: RedeemParams): SafeTransaction {
+export function createRedeemTx(params: RedeemParams | RedeemIndexSetsParams): SafeTransaction {
   const parentCollectionId = ("0x" + "0".repeat(64)) as `0x${string}`;
-  const indexSet = BigInt(1 << params.outcomeIndex);
+  const indexSets =
+    "indexSets" in params ? params.indexSets : [BigInt(1 << params.outcomeIndex)];
 
   const data = encodeFunctionData({
     abi: ctfAbi,
@@ -32,7 +28,7 @@ export function createRedeemTx(params: RedeemParams): SafeTransaction {
       USDC_E_CONTRACT_ADDRESS,
       parentCollectionId,
       params.conditionId as `0x${string}`,
-      [indexSet],
+      indexSets,
     ],
   });
 
@@ -43,3 +39,25 @@ export function createRedeemTx(params: RedeemParams): SafeTransaction {
     value: "0",
   };
 }
+
+/**
+ * Builds a SafeTransaction for NegRiskAdapter redeemPositions.
+ * Note: amounts are raw uint256 outcome token amounts indexed by outcome ([yes, no]).
+ */
+export function createNegRiskRedeemTx(params: NegRiskRedeemParams): SafeTransaction {
+  const adapterAddress = (params.negRiskAdapterAddress ??
+    NEG_RISK_ADAPTER_ADDRESS) as HexAddress;
+
+  const data = encodeFunctionData({
+    abi: negRiskAdapterAbi,
+    functionName: "redeemPositions",
+    args: [params.conditionId as `0x${string}`, params.amounts],
+  });
+
+  return {
+    to: adapterAddress,
+    operation: OperationType.Call,
+    data,
+    value: "0",
+  };
+}
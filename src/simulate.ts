@@ -0,0 +1,178 @@
+import type { SafeTransaction } from "@polymarket/builder-relayer-client";
+import { getContractConfig } from "@polymarket/builder-relayer-client/dist/config/index.js";
+import { createSafeMultisendTransaction } from "@polymarket/builder-relayer-client/dist/encode/safe.js";
+import { createPublicClient, decodeErrorResult, http } from "viem";
+import { polygon } from "viem/chains";
+
+import { DEFAULT_CHAIN_ID } from "./constants.js";
+import { InvalidConfigError } from "./errors.js";
+import type { HexAddress, SimulationResult } from "./types.js";
+
+// CTF and USDC.e revert with Error(string) / Panic(uint256), which viem decodes natively.
+// The NegRiskAdapter uses custom errors.
+const revertErrorsAbi = [
+  { type: "error", name: "InvalidIndexSet", inputs: [] },
+  { type: "error", name: "LengthMismatch", inputs: [] },
+  { type: "error", name: "UnexpectedCollateralToken", inputs: [] },
+  { type: "error", name: "NoConvertiblePositions", inputs: [] },
+  { type: "error", name: "NotApprovedForAll", inputs: [] },
+  { type: "error", name: "MarketNotPrepared", inputs: [] },
+  { type: "error", name: "MarketAlreadyPrepared", inputs: [] },
+  { type: "error", name: "MarketAlreadyDetermined", inputs: [] },
+  { type: "error", name: "IndexOutOfBounds", inputs: [] },
+  { type: "error", name: "OnlyOracle", inputs: [] },
+  { type: "error", name: "NotAdmin", inputs: [] },
+] as const;
+
+function extractRevertData(err: any): `0x${string}` | undefined {
+  const found = err?.walk?.(
+    (e: any) => typeof e?.data === "string" && e.data.startsWith("0x")
+  );
+  const data = (found?.data ?? err?.data) as unknown;
+  return typeof data === "string" && data.startsWith("0x") && data.length > 2
+    ? (data as `0x${string}`)
+    : undefined;
+}
+
+/**
+ * Decodes revert data into a readable reason using Error(string), Panic(uint256)
+ * and the NegRiskAdapter custom errors.
+ */
+export function decodeRevertReason(
+  data: `0x${string}`
+): { errorName: string; reason: string } | undefined {
+  try {
+    // Error(string) and Panic(uint256) are appended by viem but absent from the inferred type.
+    const decoded = decodeErrorResult({ abi: revertErrorsAbi, data }) as {
+      errorName: string;
+      args?: readonly unknown[] | undefined;
+    };
+    if (decoded.errorName === "Error") {
+      return { errorName: "Error", reason: String(decoded.args?.[0] ?? "") };
+    }
+    if (decoded.errorName === "Panic") {
+      return { errorName: "Panic", reason: `Panic(${String(decoded.args?.[0] ?? "")})` };
+    }
+    return { errorName: decoded.errorName, reason: decoded.errorName };
+  } catch {
+    return undefined;
+  }
+}
+
+function toFailure(err: any, failedIndex?: number): SimulationResult {
+  const out: SimulationResult = { success: false };
+  if (failedIndex !== undefined) out.failedIndex = failedIndex;
+
+  const revertData = extractRevertData(err);
+  if (revertData) {
+    out.revertData = revertData;
+    const decoded = decodeRevertReason(revertData);
+    if (decoded) {
+      out.errorName = decoded.errorName;
+      out.revertReason = decoded.reason;
+      return out;
+    }
+  }
+  out.revertReason =
+    (err?.shortMessage as string | undefined) ??
+    (err?.message as string | undefined) ??
+    "Execution reverted";
+  return out;
+}
+
+/**
+ * Simulates a batch of SafeTransactions as if executed by the Safe, via eth_call.
+ * - Single call: eth_call from the Safe to the target.
+ * - Batches: eth_call with a state override that gives the Safe the MultiSend code, so the
+ *   batch runs sequentially in the Safe's context. On failure, prefixes of the batch are run
+ *   the same way (binary search) to find the first failing transaction, so every transaction
+ *   sees the state left by the ones before it.
+ * Nothing is signed or submitted.
+ */
+export async function simulateSafeTransactions(params: {
+  rpcUrl: string;
+  safeAddress: HexAddress;
+  txs: SafeTransaction[];
+  chainId?: number;
+  multisendAddress?: HexAddress;
+}): Promise<SimulationResult> {
+  if (params.txs.length === 0) return { success: true };
+
+  const publicClient = createPublicClient({
+    chain: polygon,
+    transport: http(params.rpcUrl),
+  });
+
+  const callOne = async (tx: SafeTransaction) =>
+    await publicClient.call({
+      account: params.safeAddress,
+      to: tx.to as HexAddress,
+      data: tx.data as `0x${string}`,
+      value: BigInt(tx.value),
+    });
+
+  if (params.txs.length === 1 && Number(params.txs[0]!.operation) === 0) {
+    try {
+      await callOne(params.txs[0]!);
+      return { success: true };
+    } catch (err) {
+      return toFailure(err, 0);
+    }
+  }
+
+  const multisendAddress = (params.multisendAddress ??
+    getContractConfig(params.chainId ?? DEFAULT_CHAIN_ID).SafeContracts
+      .SafeMultisend) as HexAddress;
+  const multisendCode = await publicClient.getCode({ address: multisendAddress });
+  if (!multisendCode) {
+    throw new InvalidConfigError(`No MultiSend contract code at ${multisendAddress}`);
+  }
+
+  // Returns the error of a reverting prefix, undefined when it succeeds.
+  const callPrefix = async (length: number): Promise<unknown> => {
+    const batch = createSafeMultisendTransaction(params.txs.slice(0, length), multisendAddress);
+    try {
+      await publicClient.call({
+        account: params.safeAddress,
+        to: params.safeAddress,
+        data: batch.data as `0x${string}`,
+        stateOverride: [{ address: params.safeAddress, code: multisendCode }],
+      });
+      return undefined;
+    } catch (err) {
+      return err ?? new Error("Execution reverted");
+    }
+  };
+
+  const batchErr = await callPrefix(params.txs.length);
+  if (batchErr === undefined) return { success: true };
+
+  // The shortest reverting prefix ends with the failing transaction.
+  let failing = { length: params.txs.length, err: batchErr };
+  let low = 1;
+  let high = params.txs.length - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const err = await callPrefix(mid);
+    if (err === undefined) {
+      low = mid + 1;
+    } else {
+      failing = { length: mid, err };
+      high = mid - 1;
+    }
+  }
+
+  const failedIndex = failing.length - 1;
+  const failure = toFailure(failing.err, failedIndex);
+  if (failure.revertData || failedIndex !== 0 || Number(params.txs[0]!.operation) !== 0) {
+    return failure;
+  }
+  // Older MultiSend versions drop the inner revert data; a failing first call has the
+  // starting state, so a direct call reproduces it with its reason.
+  try {
+    await callOne(params.txs[0]!);
+    return failure;
+  } catch (err) {
+    return toFailure(err, 0);
+  }
+}
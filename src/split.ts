@@ -3,24 +3,10 @@ import {
   OperationType,
   type SafeTransaction,
 } from "@polymarket/builder-relayer-client";
+import { ctfAbi } from "./abis.js";
 import { CTF_CONTRACT_ADDRESS, USDC_E_CONTRACT_ADDRESS } from "./tokens.js";
 import type { HexAddress, SplitPositionParams } from "./types.js";
 
-const ctfAbi = [
-  {
-    name: "splitPosition",
-    type: "function",
-    inputs: [
-      { name: "collateralToken", type: "address" },
-      { name: "parentCollectionId", type: "bytes32" },
-      { name: "conditionId", type: "bytes32" },
-      { name: "partition", type: "uint256[]" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [],
-  },
-] as const;
-
 /**
  * Builds a SafeTransaction for CTF splitPosition.
  * Note: amount is a raw uint256 (usually collateral amount in token base units).
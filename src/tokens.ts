@@ -12,3 +12,6 @@ export const NEG_RISK_CTF_EXCHANGE_ADDRESS =
 
 export const NEG_RISK_ADAPTER_ADDRESS =
   "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296" as const;
+
+export const NEG_RISK_WRAPPED_COLLATERAL_ADDRESS =
+  "0x3A3BD7bb9528E159577F7C2e685CC81A765002E2" as const;
@@ -2,11 +2,166 @@ import type { SafeTransaction } from "@polymarket/builder-relayer-client";
 
 export type HexAddress = `0x${string}`;
 
+export type ExecutionResponse = {
+  /**
+   * Relayer transaction ID, or the on-chain hash for direct execution.
+   */
+  transactionID: string;
+  /**
+   * Resolves once the transaction is mined. Resolves undefined when it failed.
+   */
+  wait: () => Promise<{ transactionHash: string } | undefined>;
+  /**
+   * Initial state reported on submission (relayer: "STATE_NEW").
+   */
+  state?: string;
+  /**
+   * Optional state lookup used to track progress, time out and report state transitions.
+   * Most recent entry first.
+   */
+  getTransaction?: () => Promise<Array<{ state: string; transactionHash?: string }>>;
+};
+
+/**
+ * Anything that can execute a batch of SafeTransactions from the Safe.
+ * A RelayClient satisfies this interface as-is.
+ */
+export type ExecutionBackend = {
+  execute(txs: SafeTransaction[], metadata?: string): Promise<ExecutionResponse>;
+};
+
+/**
+ * Upstream service an HTTP/RPC error came from.
+ */
+export type ApiService = "gamma" | "data-api" | "clob" | "relayer" | "rpc";
+
 export type RemoteSigningConfig = {
   url: string;
   token?: string;
 };
 
+export type UsdcSpenderPolicy = {
+  spender: HexAddress;
+  /**
+   * Raw uint256 allowance to grant in USDC.e base units.
+   * Default: max uint256. When set, allowances above this cap are reduced back to it.
+   */
+  amount?: bigint;
+  /**
+   * Allowance below which the spender is re-approved.
+   * Default: DEFAULT_USDC_APPROVAL_THRESHOLD, or half of amount when that is lower.
+   */
+  topUpThreshold?: bigint;
+};
+
+export type ApprovalPolicy = {
+  /**
+   * USDC.e spenders to approve. Default: all USDC.e spenders with unlimited allowance.
+   */
+  usdcSpenders?: UsdcSpenderPolicy[];
+  /**
+   * Outcome token (ERC1155) operators to approve. Default: all outcome token operators.
+   */
+  outcomeTokenOperators?: HexAddress[];
+  /**
+   * Default: true.
+   * When false, a spender with a non-zero allowance below topUpThreshold is left as-is.
+   */
+  topUp?: boolean;
+};
+
+export type RetryConfig = {
+  /**
+   * Default: 3.
+   */
+  maxRetries?: number;
+  /**
+   * Default: 500. Backoff is baseDelayMs * 2^attempt with full jitter.
+   */
+  baseDelayMs?: number;
+  /**
+   * Default: 10_000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Default: 60_000. A Retry-After longer than this is not waited for; the response is returned.
+   */
+  maxRetryAfterMs?: number;
+  /**
+   * Default: [429, 500, 502, 503, 504].
+   */
+  retryStatuses?: number[];
+};
+
+export type RateLimitRule = {
+  requests: number;
+  intervalMs: number;
+};
+
+export type HttpConfig = {
+  /**
+   * Retry policy, or false to disable retries.
+   */
+  retry?: RetryConfig | false;
+  /**
+   * Default: 15_000. Per-attempt timeout until the response headers arrive; reading the body
+   * is not covered. 0 disables.
+   */
+  timeoutMs?: number;
+  /**
+   * Token-bucket limits keyed by host or host + path prefix, merged over the published
+   * Polymarket limits (DEFAULT_RATE_LIMITS). false disables rate limiting.
+   */
+  rateLimits?: Record<string, RateLimitRule> | false;
+  /**
+   * Clock/timer hooks, mainly for tests with a fake fetch.
+   */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+};
+
+export type ValidationWarning = {
+  service: ApiService;
+  url?: string;
+  /**
+   * Path of the offending field, e.g. "[3].clobTokenIds" or "markets[0].liquidity".
+   */
+  field: string;
+  message: string;
+};
+
+export type ResponseValidationConfig = {
+  /**
+   * Default: "lenient".
+   * strict: throw InvalidResponseError on the first field that does not match.
+   * lenient: coerce what can be coerced (e.g. numeric strings to numbers) and report the rest as warnings.
+   */
+  mode?: "strict" | "lenient";
+  /**
+   * Receives lenient-mode warnings. Default: warnings are dropped.
+   */
+  onWarning?: (warning: ValidationWarning) => void;
+};
+
+/**
+ * Settings for the kit's default MarketIndex (ignored when a marketIndex instance is passed in).
+ */
+export type MetadataCacheConfig = {
+  /**
+   * Default: 60_000. TTL of tick size, min order size and accepting-orders facts.
+   */
+  mutableTtlMs?: number;
+  /**
+   * Default: 24h. TTL of conditionId, outcome labels and negRisk.
+   */
+  immutableTtlMs?: number;
+  /**
+   * Default: in-memory. Pass a shared storage to share cached metadata across kits/processes.
+   */
+  storage?: MarketIndexStorage;
+};
+
 export type PolyCoreConfig = {
   chainId?: number;
   rpcUrl: string;
@@ -17,6 +172,126 @@ export type PolyCoreConfig = {
    * Provide a custom fetch implementation if globalThis.fetch is unavailable.
    */
   fetchFn?: typeof fetch;
+  /**
+   * Retries, backoff, rate limits and timeouts for HTTP calls (Gamma, Data API, CLOB reads).
+   */
+  http?: HttpConfig;
+  /**
+   * Runtime validation of Gamma / Data API / CLOB responses parsed by PolymarketDataClient.
+   */
+  validation?: ResponseValidationConfig;
+  /**
+   * Token metadata (tick size, neg risk, ...) cache used when placing orders.
+   */
+  metadataCache?: MetadataCacheConfig;
+  /**
+   * Which approvals ensureApprovals/initializeTradingSession grant and how much.
+   * Default: unlimited allowances for every spender.
+   */
+  approvalPolicy?: ApprovalPolicy;
+};
+
+export type SimulationResult = {
+  success: boolean;
+  /**
+   * Index (within the submitted batch) of the first transaction found to revert.
+   */
+  failedIndex?: number;
+  /**
+   * Decoded error name, e.g. "Error", "Panic" or a NegRiskAdapter custom error.
+   */
+  errorName?: string;
+  revertReason?: string;
+  /**
+   * Raw revert data when the node returned any.
+   */
+  revertData?: `0x${string}`;
+};
+
+export type ExecuteOptions = {
+  /**
+   * Default: false.
+   * When true, the batch is simulated via eth_call first and nothing is submitted if it would revert.
+   */
+  simulate?: boolean;
+  /**
+   * Safe used for simulation. Default: the Safe derived from the EOA.
+   */
+  safeAddress?: HexAddress;
+  /**
+   * Default: false.
+   * When true, returns right after submission with a pending result and a handle to poll later.
+   */
+  fireAndForget?: boolean;
+} & ExecutionWaitOptions;
+
+export type ExecutionWaitOptions = {
+  /**
+   * Default: 60_000.
+   * Max time to wait for the transaction to be mined or fail before returning a pending result.
+   */
+  waitTimeoutMs?: number;
+  /**
+   * Default: 2_000.
+   */
+  pollIntervalMs?: number;
+  /**
+   * Called whenever a new state is observed (e.g. STATE_NEW -> STATE_EXECUTED -> STATE_MINED).
+   */
+  onStateChange?: (evt: ExecutionStateChangeEvent) => void;
+};
+
+export type ExecutionStateChangeEvent = {
+  transactionId: string;
+  state: string;
+  transactionHash?: string;
+};
+
+export type ExecutionStateTransition = {
+  state: string;
+  /**
+   * Unix milliseconds when the state was first observed.
+   */
+  observedAtMs: number;
+};
+
+export type RelayExecutionResult = {
+  /**
+   * Relayer transaction ID (or the on-chain hash for direct execution).
+   */
+  transactionId: string;
+  /**
+   * Last observed state, e.g. "STATE_NEW", "STATE_MINED", "STATE_FAILED".
+   */
+  state: string;
+  /**
+   * True once the transaction was mined successfully.
+   */
+  success: boolean;
+  /**
+   * True while the transaction has not reached a final state (fire-and-forget or timed out).
+   */
+  pending: boolean;
+  timedOut: boolean;
+  transactionHash?: string;
+  gasUsed?: bigint;
+  stateTransitions: ExecutionStateTransition[];
+  /**
+   * Present while pending: poll or wait on it later.
+   */
+  handle?: RelayExecutionHandle;
+};
+
+export type RelayExecutionHandle = {
+  transactionId: string;
+  /**
+   * Fetches the latest state once.
+   */
+  poll: () => Promise<RelayExecutionResult>;
+  /**
+   * Polls until the transaction is mined, fails or the wait times out.
+   */
+  wait: (options?: ExecutionWaitOptions) => Promise<RelayExecutionResult>;
 };
 
 export type ApiCredentials = {
@@ -53,9 +328,42 @@ export type ApprovalStatus = {
   outcomeTokenApprovals: Record<string, boolean>;
 };
 
+export type UsdcSpenderAllowance = {
+  name: string;
+  spender: HexAddress;
+  /**
+   * Raw uint256 allowance in USDC.e base units. null when the RPC read failed.
+   */
+  allowance: bigint | null;
+};
+
+export type OutcomeTokenOperatorApproval = {
+  name: string;
+  operator: HexAddress;
+  /**
+   * null when the RPC read failed.
+   */
+  approved: boolean | null;
+};
+
+export type ApprovalDetails = {
+  usdc: UsdcSpenderAllowance[];
+  outcomeTokens: OutcomeTokenOperatorApproval[];
+};
+
 export type EnsureApprovalsResult = {
   didSubmitTx: boolean;
   approvals: ApprovalStatus;
+  /**
+   * True when the transaction was submitted with fireAndForget and is not mined yet:
+   * approvals is then the state read before submitting. Re-check with checkApprovals
+   * once execution.handle resolves.
+   */
+  approvalsPending?: boolean;
+  /**
+   * Present when a transaction was submitted.
+   */
+  execution?: RelayExecutionResult;
 };
 
 export type OrderSide = "BUY" | "SELL";
@@ -89,9 +397,21 @@ export type CreateLimitOrderRequest = {
    */
   negRisk?: boolean;
   /**
-   * If true, the kit will fetch an orderbook price and submit an aggressive limit order.
+   * If true, the kit fetches the order book, walks it for `size` and submits a limit order at the
+   * worst level needed, provided that level is within maxSlippageBps / worstPrice.
+   * Otherwise nothing is submitted and errorCode is "SLIPPAGE_LIMIT_EXCEEDED".
    */
   isMarketOrder?: boolean;
+  /**
+   * Only used when isMarketOrder = true. Max distance of the worst fill price from the mid
+   * (best price when one side is empty). Default: 500 (5%) unless worstPrice is set.
+   */
+  maxSlippageBps?: number;
+  /**
+   * Only used when isMarketOrder = true. Absolute price cap (BUY) / floor (SELL).
+   * When combined with maxSlippageBps the tighter limit wins.
+   */
+  worstPrice?: number;
   /**
    * Default: "GTC".
    */
@@ -188,9 +508,219 @@ export type ClobInsertErrorCode =
   | "DELAYING_ORDER_ERROR"
   | "FOK_ORDER_NOT_FILLED_ERROR"
   | "MARKET_NOT_READY"
+  | "SLIPPAGE_LIMIT_EXCEEDED"
   | "HTTP_ERROR"
   | "UNKNOWN";
 
+export type ClobCancelErrorCode =
+  | "ORDER_NOT_FOUND"
+  | "ORDER_ALREADY_CANCELED"
+  | "ORDER_ALREADY_MATCHED"
+  | "NOT_ORDER_OWNER"
+  | "UNKNOWN";
+
+export type CancelOrderFailure = {
+  errorCode: ClobCancelErrorCode;
+  errorMsg: string;
+};
+
+/**
+ * Outcome of a cancel request the CLOB answered. Requests that fail as a whole (HTTP error,
+ * network) throw ApiHttpError instead, so every cancel method either returns this or throws.
+ */
+export type CancelOrdersResult = {
+  /**
+   * Order IDs the CLOB confirmed as canceled.
+   */
+  canceled: string[];
+  /**
+   * Order IDs the CLOB refused or did not report as canceled, with the reason.
+   */
+  notCanceled: Record<string, CancelOrderFailure>;
+};
+
+/**
+ * At least one of conditionId / tokenId is required; use cancelAll for account-wide cancels.
+ */
+export type CancelMarketOrdersParams = {
+  conditionId?: string;
+  tokenId?: string;
+  /**
+   * Only cancel orders on this side. Open orders are listed first and canceled by ID.
+   */
+  side?: OrderSide;
+};
+
+/**
+ * Parsed view of a CLOB order (GET /data/order/{id}).
+ */
+export type OrderSnapshot = {
+  orderId: string;
+  /**
+   * CLOB status, upper-cased, e.g. "LIVE", "MATCHED", "CANCELED".
+   */
+  status: string;
+  tokenId: string;
+  conditionId: string;
+  side: OrderSide;
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  outcome?: string;
+  /**
+   * CLOB order type, upper-cased, e.g. "GTC", "GTD".
+   */
+  orderType?: string;
+  /**
+   * Unix milliseconds; absent for orders without an expiration (GTC).
+   */
+  expiresAtMs?: number;
+  raw?: any;
+};
+
+export type ReplaceOrderChanges = {
+  price?: number;
+  /**
+   * New total size in shares. The reposted size is this minus whatever the old order had filled.
+   * Default: the old order's original size.
+   */
+  size?: number;
+  /**
+   * Default: the old order's type (GTD when it had an expiration, otherwise GTC).
+   */
+  timeInForce?: OrderTimeInForce;
+  /**
+   * Only used for GTD. Unix seconds. Default: the old order's expiration.
+   */
+  expirationUnixSeconds?: number;
+  /**
+   * Default: resolved from the token's metadata like createLimitOrder does.
+   */
+  negRisk?: boolean;
+  tickSizeMode?: TickSizeMode;
+  tickRounding?: TickRoundingMode;
+  deferExec?: boolean;
+};
+
+/**
+ * - "replaced": old order canceled (confirmed), new order accepted
+ * - "filled": old order canceled or matched with nothing left to repost
+ * - "repost_failed": old order canceled (confirmed) but the new order was rejected; no exposure remains
+ * - "not_open": old order was not live, nothing was canceled or posted
+ * - "invalid_changes": the replacement would be invalid (e.g. a GTD expiring less than 60s from now);
+ *   nothing was canceled or posted
+ * - "cancel_failed": the CLOB refused the cancel or the request failed; nothing was posted and the old order may still be live
+ * - "cancel_unconfirmed": cancel was accepted but the final state could not be read back; nothing was posted
+ * - "lookup_failed": the old order could not be read; nothing was canceled or posted
+ */
+export type ReplaceOrderOutcome =
+  | "replaced"
+  | "filled"
+  | "repost_failed"
+  | "not_open"
+  | "invalid_changes"
+  | "cancel_failed"
+  | "cancel_unconfirmed"
+  | "lookup_failed";
+
+export type ReplaceOrderResult = {
+  outcome: ReplaceOrderOutcome;
+  /**
+   * Latest known state of the old order (after the cancel when it went through).
+   */
+  oldOrder?: OrderSnapshot;
+  cancel?: CancelOrdersResult;
+  /**
+   * Size submitted for the new order.
+   */
+  repostSize?: number;
+  newOrder?: CreateOrderResult;
+  errorMsg?: string;
+};
+
+/**
+ * - "pending": accepted but not seen live yet (e.g. status "delayed")
+ * - "canceled" / "expired" may still carry a partial fill (filledSize > 0)
+ */
+export type TrackedOrderStatus =
+  | "pending"
+  | "live"
+  | "partially_filled"
+  | "filled"
+  | "canceled"
+  | "expired";
+
+/**
+ * "unknown": no trade or receipt reported the transaction within the tracker's settlement timeout.
+ */
+export type SettlementStatus = "pending" | "mined" | "failed" | "unknown";
+
+/**
+ * One match of a tracked order, taken from the CLOB trades endpoint.
+ */
+export type OrderFill = {
+  tradeId: string;
+  /**
+   * Whether the tracked order was the taker or one of the makers of the trade.
+   */
+  role: "TAKER" | "MAKER";
+  size: number;
+  price: number;
+  /**
+   * CLOB trade status: "MATCHED", "MINED", "CONFIRMED", "RETRYING" or "FAILED".
+   */
+  status: string;
+  transactionHash?: string;
+};
+
+export type TrackedOrder = {
+  orderId: string;
+  status: TrackedOrderStatus;
+  tokenId?: string;
+  conditionId?: string;
+  side?: OrderSide;
+  price?: number;
+  originalSize?: number;
+  /**
+   * Matched shares (the order's size_matched; summed from trades until the order is readable).
+   */
+  filledSize: number;
+  /**
+   * Size-weighted price of the non-failed fills. Absent until something fills.
+   */
+  averageFillPrice?: number;
+  fills: OrderFill[];
+  /**
+   * Settlement state per transaction hash (from CreateOrderResult.transactionHashes and trades).
+   */
+  settlements: Record<string, SettlementStatus>;
+  /**
+   * True once the order is filled/canceled/expired and no settlement is pending; it is no longer polled.
+   */
+  final: boolean;
+  trackedSinceMs: number;
+  updatedAtMs: number;
+};
+
+export type OrderLifecycleEvent =
+  | { type: "placed"; orderId: string; order: TrackedOrder }
+  | {
+      type: "partially_filled" | "filled";
+      orderId: string;
+      /**
+       * Shares filled since the previous fill event.
+       */
+      fillDelta: number;
+      order: TrackedOrder;
+    }
+  | { type: "canceled" | "expired"; orderId: string; order: TrackedOrder }
+  | {
+      type: "settlement_mined" | "settlement_failed" | "settlement_unknown";
+      orderId: string;
+      transactionHash: string;
+      order: TrackedOrder;
+    };
+
 export type CreateOrderResult = {
   /**
    * True means the order was accepted by the API (even if delayed/unmatched).
@@ -213,6 +743,111 @@ export type RedeemParams = {
   outcomeIndex: number;
 };
 
+export type RedeemIndexSetsParams = {
+  conditionId: string;
+  /**
+   * uint256[] index sets to redeem in one call, e.g. [1n, 2n] for both outcomes of a binary market.
+   */
+  indexSets: bigint[];
+};
+
+export type NegRiskRedeemParams = {
+  /**
+   * bytes32 hex string (0x...).
+   */
+  conditionId: string;
+  /**
+   * uint256[] amounts per outcome ([yes, no]) in outcome token base units.
+   */
+  amounts: bigint[];
+  /**
+   * Optional override.
+   */
+  negRiskAdapterAddress?: HexAddress;
+};
+
+/**
+ * Accepts a Data API position as-is (conditionId, outcomeIndex, negativeRisk, size).
+ */
+export type RedeemPositionParams = RedeemParams & {
+  /**
+   * When true, redeems through the NegRiskAdapter instead of the CTF contract.
+   */
+  negativeRisk?: boolean;
+  /**
+   * Position size in shares. Used for neg-risk redemption when amount is omitted.
+   */
+  size?: number;
+  /**
+   * Raw uint256 amount in outcome token base units. Takes precedence over size.
+   */
+  amount?: bigint;
+};
+
+export type RedeemConditionStatus = "redeemed" | "skipped" | "failed";
+
+export type RedeemConditionReport = {
+  conditionId: string;
+  negativeRisk: boolean;
+  status: RedeemConditionStatus;
+  outcomeIndices: number[];
+  /**
+   * Total position size in shares across the redeemed outcomes.
+   */
+  size: number;
+  /**
+   * Transaction ID (ExecutionResponse.transactionID) of the batch that carried this condition.
+   */
+  transactionId?: string;
+  transactionHash?: string;
+  /**
+   * Why the condition was skipped or failed.
+   */
+  reason?: string;
+};
+
+/**
+ * waitTimeoutMs / pollIntervalMs / onStateChange apply to each batch. A batch still pending
+ * after waitTimeoutMs is reported as failed with its transactionId.
+ */
+export type RedeemAllOptions = {
+  /**
+   * Max number of conditions redeemed per execute call.
+   * Default: 10.
+   */
+  batchSize?: number;
+  /**
+   * Forwarded to the Data API positions query.
+   * Default: 0.
+   */
+  sizeThreshold?: number;
+  /**
+   * Default: false.
+   * When true, conditions whose positions are worth nothing (losing outcomes) are skipped.
+   */
+  skipWorthless?: boolean;
+  /**
+   * Default: true.
+   * When true, redeem amounts come from on-chain CTF balances instead of the (lagging) Data API,
+   * and conditions whose balance already moved are skipped.
+   */
+  checkOnChainBalances?: boolean;
+  /**
+   * Default: false.
+   * When true, each batch is simulated first; batches that would revert are reported as failed.
+   */
+  simulate?: boolean;
+} & ExecutionWaitOptions;
+
+export type RedeemAllResult = {
+  reports: RedeemConditionReport[];
+  /**
+   * True when the Data API had more positions than the max paging offset allows;
+   * positions past it were not considered.
+   */
+  truncated: boolean;
+};
+
 export type MergePositionsParams = {
   /**
    * bytes32 hex string (0x...).
@@ -234,6 +869,82 @@ export type MergePositionsParams = {
   ctfAddress?: HexAddress;
 };
 
+export type NegRiskMergePositionsParams = {
+  /**
+   * bytes32 hex string (0x...).
+   */
+  conditionId: string;
+  /**
+   * uint256 amount of full sets in outcome token base units.
+   */
+  amount: bigint;
+  /**
+   * Optional override.
+   */
+  negRiskAdapterAddress?: HexAddress;
+};
+
+export type MergeConditionStatus = "planned" | "merged" | "skipped" | "failed";
+
+export type MergeConditionReport = {
+  conditionId: string;
+  negativeRisk: boolean;
+  status: MergeConditionStatus;
+  /**
+   * uint256[] partition (index sets) used for the merge.
+   */
+  partition: bigint[];
+  /**
+   * Largest mergeable amount (min of complementary balances) in base units.
+   */
+  amount: bigint;
+  /**
+   * Transaction ID (ExecutionResponse.transactionID) of the batch that carried this condition.
+   */
+  transactionId?: string;
+  transactionHash?: string;
+  /**
+   * Why the condition was skipped or failed.
+   */
+  reason?: string;
+};
+
+/**
+ * waitTimeoutMs / pollIntervalMs / onStateChange apply to each batch. A batch still pending
+ * after waitTimeoutMs is reported as failed with its transactionId.
+ */
+export type MergeAllOptions = {
+  /**
+   * Max number of conditions merged per execute call.
+   * Default: 10.
+   */
+  batchSize?: number;
+  /**
+   * Default: false.
+   * When true, nothing is submitted and every mergeable condition is reported as "planned".
+   */
+  dryRun?: boolean;
+  /**
+   * Default: true.
+   * When true, merge amounts come from on-chain CTF balances instead of the (lagging) Data API.
+   */
+  checkOnChainBalances?: boolean;
+  /**
+   * Default: false.
+   * When true, each batch is simulated first; batches that would revert are reported as failed.
+   */
+  simulate?: boolean;
+} & ExecutionWaitOptions;
+
+export type MergeAllResult = {
+  reports: MergeConditionReport[];
+  /**
+   * True when the Data API had more positions than the max paging offset allows;
+   * positions past it were not considered.
+   */
+  truncated: boolean;
+};
+
 export type UsdcTransferParams = {
   to: HexAddress;
   /**
@@ -268,6 +979,25 @@ export type SplitPositionParams = {
   ctfAddress?: HexAddress;
 };
 
+export type ConvertPositionsParams = {
+  /**
+   * bytes32 neg-risk market ID (PolymarketEvent.negRiskMarketID).
+   */
+  marketId: string;
+  /**
+   * uint256 bitmask of question indices whose NO positions are converted.
+   */
+  indexSet: bigint;
+  /**
+   * uint256 amount of NO tokens per question in base units.
+   */
+  amount: bigint;
+  /**
+   * Optional override.
+   */
+  negRiskAdapterAddress?: HexAddress;
+};
+
 export type UsdcApproveParams = {
   spender: HexAddress;
   /**
@@ -300,6 +1030,83 @@ export type ApproveAndTransferUsdcParams = {
   tokenAddress?: HexAddress;
 };
 
+export type SafeTransactionDescription = {
+  to: HexAddress;
+  /**
+   * Known contract name (e.g. "USDC.e", "CTF Contract", "Neg Risk Adapter").
+   */
+  targetName?: string;
+  operation: number;
+  value: string;
+  data: `0x${string}`;
+  /**
+   * False when the target or selector is unknown and only the raw view is available.
+   */
+  recognized: boolean;
+  functionName?: string;
+  /**
+   * Decoded arguments by parameter name (amounts are raw bigints).
+   */
+  args?: Record<string, unknown>;
+  summary: string;
+  /**
+   * Inner calls of a MultiSend batch.
+   */
+  calls?: SafeTransactionDescription[];
+};
+
 export type CreateApprovalTxsResult = {
   txs: SafeTransaction[];
 };
+
+/**
+ * Market facts for a token that never change once the market exists.
+ */
+export type TokenMarketRecord = {
+  conditionId: string;
+  question: string;
+  outcomeIndex: number;
+  outcome: string;
+  negRisk?: boolean;
+  /**
+   * Mutable: only trusted for MarketIndex's mutable TTL.
+   */
+  acceptingOrders?: boolean;
+  fetchedAtMs: number;
+};
+
+/**
+ * Order book facts for a token that can change (e.g. tick size tightens near 0/1).
+ */
+export type TokenBookRecord = {
+  tickSize: TickSize;
+  negRisk: boolean;
+  minOrderSize?: number;
+  fetchedAtMs: number;
+};
+
+export type MarketIndexEntry = {
+  market?: TokenMarketRecord;
+  book?: TokenBookRecord;
+};
+
+/**
+ * Persistence behind MarketIndex, keyed by token ID.
+ */
+export type MarketIndexStorage = {
+  get(tokenId: string): Promise<MarketIndexEntry | undefined>;
+  set(tokenId: string, entry: MarketIndexEntry): Promise<void>;
+  delete(tokenId: string): Promise<void>;
+};
+
+export type TokenMetadata = {
+  tokenId: string;
+  conditionId: string;
+  question: string;
+  outcomeIndex: number;
+  outcome: string;
+  negRisk?: boolean;
+  acceptingOrders?: boolean;
+  tickSize?: TickSize;
+  minOrderSize?: number;
+};
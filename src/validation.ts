@@ -0,0 +1,292 @@
+import { InvalidResponseError } from "./errors.js";
+import type { ApiService, ResponseValidationConfig, ValidationWarning } from "./types.js";
+
+/**
+ * Field kinds understood by ResponseValidator.
+ * - numeric: number or numeric string, kept as-is (Gamma mixes both)
+ * - decimalString: numeric string (lenient: numbers are converted to strings)
+ * - stringArrayJson / decimalArrayJson: JSON-encoded arrays such as clobTokenIds / outcomePrices
+ */
+export type FieldKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "numeric"
+  | "decimalString"
+  | "stringArrayJson"
+  | "decimalArrayJson"
+  | "array"
+  | "object";
+
+export type FieldSpec = {
+  kind: FieldKind;
+  /**
+   * Default: false. Missing required fields are errors (strict) or warnings (lenient).
+   */
+  required?: boolean;
+  /**
+   * Default: false. Whether null is accepted.
+   */
+  nullable?: boolean;
+  /**
+   * Schema applied to each element of an "array" field (object elements only).
+   */
+  items?: ResponseSchema;
+};
+
+/**
+ * Per-field specs. Fields not listed are passed through untouched.
+ */
+export type ResponseSchema = Record<string, FieldSpec>;
+
+type Context = {
+  service: ApiService;
+  url?: string;
+  warnings: ValidationWarning[];
+};
+
+function isNumericString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value));
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") {
+    return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  }
+  return typeof value === "object" ? "object" : String(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Validates parsed API responses against a ResponseSchema.
+ * strict: throws InvalidResponseError naming the first bad field.
+ * lenient: coerces numeric strings / booleans where possible and reports everything else as warnings.
+ */
+export class ResponseValidator {
+  private readonly strict: boolean;
+  private readonly onWarning: ((warning: ValidationWarning) => void) | undefined;
+
+  constructor(config?: ResponseValidationConfig) {
+    this.strict = config?.mode === "strict";
+    this.onWarning = config?.onWarning;
+  }
+
+  /**
+   * Validates a single object. Returns a (possibly coerced) shallow copy.
+   */
+  validateObject<T>(
+    value: unknown,
+    schema: ResponseSchema,
+    source: { service: ApiService; url?: string }
+  ): T {
+    const ctx: Context = { ...source, warnings: [] };
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      this.fail(ctx, "", `expected an object, got ${describe(value)}`);
+    }
+    const out = this.checkObject(value as Record<string, unknown>, schema, "", ctx);
+    this.flush(ctx);
+    return out as T;
+  }
+
+  /**
+   * Validates an array of objects. Returns (possibly coerced) shallow copies.
+   * Lenient mode drops elements that are not objects.
+   */
+  validateArray<T>(
+    value: unknown,
+    schema: ResponseSchema,
+    source: { service: ApiService; url?: string }
+  ): T[] {
+    const ctx: Context = { ...source, warnings: [] };
+    if (!Array.isArray(value)) {
+      this.fail(ctx, "", `expected an array, got ${describe(value)}`);
+    }
+    const out: unknown[] = [];
+    (value as unknown[]).forEach((item, i) => {
+      if (!item || typeof item !== "object" || Array.isArray(item)) {
+        this.problem(ctx, `[${i}]`, `expected an object, got ${describe(item)} (dropped)`);
+        return;
+      }
+      out.push(this.checkObject(item as Record<string, unknown>, schema, `[${i}]`, ctx));
+    });
+    this.flush(ctx);
+    return out as T[];
+  }
+
+  private checkElement(
+    item: unknown,
+    schema: ResponseSchema,
+    path: string,
+    ctx: Context
+  ): unknown {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      this.problem(ctx, path, `expected an object, got ${describe(item)}`);
+      return item;
+    }
+    return this.checkObject(item as Record<string, unknown>, schema, path, ctx);
+  }
+
+  private checkObject(
+    obj: Record<string, unknown>,
+    schema: ResponseSchema,
+    path: string,
+    ctx: Context
+  ): Record<string, unknown> {
+    const out: Record<string, unknown> = { ...obj };
+
+    for (const [key, spec] of Object.entries(schema)) {
+      const fieldPath = joinPath(path, key);
+      const value = obj[key];
+
+      if (value === undefined) {
+        if (spec.required) this.problem(ctx, fieldPath, "is missing");
+        continue;
+      }
+      if (value === null) {
+        if (!spec.nullable) this.problem(ctx, fieldPath, "must not be null");
+        continue;
+      }
+
+      const coerced = this.checkField(value, spec, fieldPath, ctx);
+      if (coerced !== value) out[key] = coerced;
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the (possibly coerced) value.
+   */
+  private checkField(value: unknown, spec: FieldSpec, path: string, ctx: Context): unknown {
+    switch (spec.kind) {
+      case "string":
+        if (typeof value === "string") return value;
+        if (typeof value === "number" || typeof value === "boolean") {
+          return this.coerce(ctx, path, value, String(value), "string");
+        }
+        return this.mismatch(ctx, path, value, "string");
+
+      case "number":
+        if (typeof value === "number" && Number.isFinite(value)) return value;
+        if (isNumericString(value)) return this.coerce(ctx, path, value, Number(value), "number");
+        return this.mismatch(ctx, path, value, "number");
+
+      case "boolean":
+        if (typeof value === "boolean") return value;
+        if (value === "true" || value === "false") {
+          return this.coerce(ctx, path, value, value === "true", "boolean");
+        }
+        return this.mismatch(ctx, path, value, "boolean");
+
+      case "numeric":
+        if ((typeof value === "number" && Number.isFinite(value)) || isNumericString(value)) {
+          return value;
+        }
+        return this.mismatch(ctx, path, value, "numeric value");
+
+      case "decimalString":
+        if (isNumericString(value)) return value;
+        if (typeof value === "number" && Number.isFinite(value)) {
+          return this.coerce(ctx, path, value, String(value), "numeric string");
+        }
+        return this.mismatch(ctx, path, value, "numeric string");
+
+      case "stringArrayJson":
+      case "decimalArrayJson":
+        return this.checkJsonArray(value, spec.kind, path, ctx);
+
+      case "array":
+        if (!Array.isArray(value)) return this.mismatch(ctx, path, value, "array");
+        if (!spec.items) return value;
+        return value.map((item, i) => this.checkElement(item, spec.items!, `${path}[${i}]`, ctx));
+
+      case "object":
+        if (typeof value === "object" && !Array.isArray(value)) return value;
+        return this.mismatch(ctx, path, value, "object");
+    }
+  }
+
+  /**
+   * clobTokenIds / outcomePrices are JSON-encoded arrays inside a string field.
+   * Lenient mode re-encodes a raw array (the shape some endpoints return).
+   */
+  private checkJsonArray(
+    value: unknown,
+    kind: "stringArrayJson" | "decimalArrayJson",
+    path: string,
+    ctx: Context
+  ): unknown {
+    const expected =
+      kind === "stringArrayJson"
+        ? "JSON-encoded array of strings"
+        : "JSON-encoded array of numeric strings";
+
+    let parsed: unknown = value;
+    if (typeof value === "string") {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return this.mismatch(ctx, path, value, expected);
+      }
+    }
+
+    const elementsOk =
+      Array.isArray(parsed) &&
+      parsed.every((x) =>
+        kind === "stringArrayJson" ? typeof x === "string" && x !== "" : isNumericString(x)
+      );
+    if (!elementsOk) return this.mismatch(ctx, path, value, expected);
+
+    if (typeof value !== "string") {
+      return this.coerce(ctx, path, value, JSON.stringify(parsed), expected);
+    }
+    return value;
+  }
+
+  private coerce(
+    ctx: Context,
+    path: string,
+    from: unknown,
+    to: unknown,
+    expected: string
+  ): unknown {
+    this.problem(ctx, path, `expected ${expected}, got ${describe(from)} (coerced)`);
+    return to;
+  }
+
+  private mismatch(ctx: Context, path: string, value: unknown, expected: string): unknown {
+    this.problem(ctx, path, `expected ${expected}, got ${describe(value)}`);
+    return value;
+  }
+
+  private problem(ctx: Context, path: string, message: string): void {
+    if (this.strict) this.fail(ctx, path, message);
+    ctx.warnings.push({
+      service: ctx.service,
+      ...(ctx.url ? { url: ctx.url } : {}),
+      field: path,
+      message,
+    });
+  }
+
+  private fail(ctx: Context, path: string, message: string): never {
+    const field = path || "response";
+    throw new InvalidResponseError(
+      `Invalid ${ctx.service} API response: ${field} ${message}`,
+      ctx.service,
+      ctx.url,
+      field
+    );
+  }
+
+  private flush(ctx: Context): void {
+    if (!this.onWarning) return;
+    for (const warning of ctx.warnings) this.onWarning(warning);
+  }
+}
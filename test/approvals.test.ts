@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { createApprovalPolicyTxs, evaluateApprovalPolicy } from "../src/approvals.js";
+import { DEFAULT_USDC_APPROVAL_THRESHOLD, MAX_UINT256 } from "../src/constants.js";
+import { CTF_CONTRACT_ADDRESS, CTF_EXCHANGE_ADDRESS } from "../src/tokens.js";
+import type { ApprovalDetails, ApprovalPolicy, HexAddress } from "../src/types.js";
+
+const CUSTOM_SPENDER = "0x1111111111111111111111111111111111111111" as HexAddress;
+const CUSTOM_OPERATOR = "0x2222222222222222222222222222222222222222" as HexAddress;
+
+function details(params: {
+  usdc?: Record<string, bigint | null>;
+  operators?: Record<string, boolean | null>;
+}): ApprovalDetails {
+  return {
+    usdc: Object.entries(params.usdc ?? {}).map(([spender, allowance]) => ({
+      name: spender,
+      spender: spender as HexAddress,
+      allowance,
+    })),
+    outcomeTokens: Object.entries(params.operators ?? {}).map(([operator, approved]) => ({
+      name: operator,
+      operator: operator as HexAddress,
+      approved,
+    })),
+  };
+}
+
+function cappedPolicy(amount: bigint, extra?: Partial<ApprovalPolicy>): ApprovalPolicy {
+  return {
+    usdcSpenders: [{ spender: CTF_EXCHANGE_ADDRESS as HexAddress, amount }],
+    outcomeTokenOperators: [],
+    ...extra,
+  };
+}
+
+describe("evaluateApprovalPolicy", () => {
+  it("accepts unlimited allowances down to the default threshold", () => {
+    const policy: ApprovalPolicy = {
+      usdcSpenders: [{ spender: CTF_CONTRACT_ADDRESS as HexAddress }],
+      outcomeTokenOperators: [],
+    };
+    const at = evaluateApprovalPolicy({
+      details: details({ usdc: { [CTF_CONTRACT_ADDRESS]: DEFAULT_USDC_APPROVAL_THRESHOLD } }),
+      policy,
+    });
+    expect(at.usdcApprovals).toEqual({ "CTF Contract": true });
+
+    const below = evaluateApprovalPolicy({
+      details: details({ usdc: { [CTF_CONTRACT_ADDRESS]: DEFAULT_USDC_APPROVAL_THRESHOLD - 1n } }),
+      policy,
+    });
+    expect(below.allApproved).toBe(false);
+  });
+
+  it("tops a capped allowance up only once it drops below half the cap", () => {
+    const evaluate = (allowance: bigint) =>
+      evaluateApprovalPolicy({
+        details: details({ usdc: { [CTF_EXCHANGE_ADDRESS]: allowance } }),
+        policy: cappedPolicy(1_000_000n),
+      }).allApproved;
+
+    expect(evaluate(1_000_000n)).toBe(true);
+    // Partly spent: still in policy, no re-approval on every check.
+    expect(evaluate(600_000n)).toBe(true);
+    expect(evaluate(500_000n)).toBe(true);
+    expect(evaluate(499_999n)).toBe(false);
+    // Above the cap is reduced back to it.
+    expect(evaluate(BigInt(MAX_UINT256))).toBe(false);
+  });
+
+  it("honours an explicit topUpThreshold and topUp=false", () => {
+    const policy: ApprovalPolicy = {
+      usdcSpenders: [
+        { spender: CTF_EXCHANGE_ADDRESS as HexAddress, amount: 1_000n, topUpThreshold: 900n },
+      ],
+      outcomeTokenOperators: [],
+    };
+    const at = (allowance: bigint, topUp?: boolean) =>
+      evaluateApprovalPolicy({
+        details: details({ usdc: { [CTF_EXCHANGE_ADDRESS]: allowance } }),
+        policy: topUp === undefined ? policy : { ...policy, topUp },
+      }).allApproved;
+
+    expect(at(900n)).toBe(true);
+    expect(at(899n)).toBe(false);
+    expect(at(1n, false)).toBe(true);
+    expect(at(0n, false)).toBe(false);
+  });
+
+  it("evaluates custom spenders and operators from their own details", () => {
+    const policy: ApprovalPolicy = {
+      usdcSpenders: [{ spender: CUSTOM_SPENDER, amount: 100n }],
+      outcomeTokenOperators: [CUSTOM_OPERATOR],
+    };
+
+    const approved = evaluateApprovalPolicy({
+      details: details({ usdc: { [CUSTOM_SPENDER]: 80n }, operators: { [CUSTOM_OPERATOR]: true } }),
+      policy,
+    });
+    expect(approved).toEqual({
+      allApproved: true,
+      usdcApprovals: { [CUSTOM_SPENDER]: true },
+      outcomeTokenApprovals: { [CUSTOM_OPERATOR]: true },
+    });
+    expect(
+      createApprovalPolicyTxs({
+        policy,
+        details: details({
+          usdc: { [CUSTOM_SPENDER]: 80n },
+          operators: { [CUSTOM_OPERATOR]: true },
+        }),
+      }).txs
+    ).toEqual([]);
+
+    const missing = evaluateApprovalPolicy({ details: details({}), policy });
+    expect(missing.allApproved).toBe(false);
+    expect(createApprovalPolicyTxs({ policy, details: details({}) }).txs).toHaveLength(2);
+  });
+
+  it("treats a failed RPC read as not approved", () => {
+    const result = evaluateApprovalPolicy({
+      details: details({ usdc: { [CTF_EXCHANGE_ADDRESS]: null } }),
+      policy: cappedPolicy(10n),
+    });
+    expect(result.allApproved).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getCollectionId,
+  getConditionId,
+  getOutcomeTokenIds,
+  getPositionId,
+  verifyClobTokenIds,
+} from "../src/ctf-ids.js";
+
+// Worked examples from the ConditionalTokens developer guide
+// (@gnosis.pm/conditional-tokens-contracts docs/developer-guide.rst), the contract Polymarket's
+// CTF on Polygon is deployed from.
+const CATEGORICAL = {
+  oracle: "0x1337aBcdef1337abCdEf1337ABcDeF1337AbcDeF",
+  questionId: "0xabcabcabcabcabcabcabcabcabcabcabcabcabcabcabcabcabcabcabcabc1234",
+  conditionId: "0x67eb23e8932765c1d7a094838c928476df8c50d1d3898f278ef1fb2a62afab63",
+} as const;
+const SCALAR = {
+  oracle: "0xCafEBAbECAFEbAbEcaFEbabECAfebAbEcAFEBaBe",
+  questionId: "0x777def777def777def777def777def777def777def777def777def777def7890",
+  conditionId: "0x3bdb7de3d0860745c0cac9c1dcc8e0d9cb7d33e6a899c2c298343ccedf1d66cf",
+} as const;
+const DOLLACOIN = "0xD011ad011ad011AD011ad011Ad011Ad011Ad011A" as const;
+
+const COLLECTION_A_OR_B = "0x229b067e142fce0aea84afb935095c6ecbea8647b8a013e795cc0ced3210a3d5";
+const COLLECTION_LO = "0x560ae373ed304932b6f424c8a243842092c117645533390a3c1c95ff481587c2";
+const COLLECTION_A_OR_B_AND_LO =
+  "0x6f722aa250221af2eba9868fc9d7d43994794177dd6fa7766e3e72ba3c111909";
+
+function hex32(value: bigint): string {
+  return `0x${value.toString(16).padStart(64, "0")}`;
+}
+
+describe("CTF identifiers (developer guide vectors)", () => {
+  it("derives condition IDs", () => {
+    expect(getConditionId({ ...CATEGORICAL, outcomeSlotCount: 3 })).toBe(CATEGORICAL.conditionId);
+    expect(getConditionId({ ...SCALAR, outcomeSlotCount: 2 })).toBe(SCALAR.conditionId);
+  });
+
+  it("hashes index sets onto alt_bn128, for both y-parities", () => {
+    // (A|B) lands on an even y, (LO) on an odd y (second highest bit set).
+    expect(getCollectionId({ conditionId: CATEGORICAL.conditionId, indexSet: 0b011n })).toBe(
+      COLLECTION_A_OR_B
+    );
+    expect(getCollectionId({ conditionId: SCALAR.conditionId, indexSet: 0b01n })).toBe(
+      COLLECTION_LO
+    );
+  });
+
+  it("adds the parent collection point for nested collections", () => {
+    expect(
+      getCollectionId({
+        conditionId: SCALAR.conditionId,
+        indexSet: 0b01n,
+        parentCollectionId: COLLECTION_A_OR_B,
+      })
+    ).toBe(COLLECTION_A_OR_B_AND_LO);
+  });
+
+  it("derives position IDs from collateral and collection", () => {
+    const positionOf = (collectionId: `0x${string}`) =>
+      hex32(getPositionId({ collectionId, collateralToken: DOLLACOIN }));
+
+    expect(positionOf(COLLECTION_A_OR_B)).toBe(
+      "0x5355fd8106a08b14aedf99935210b2c22a7f92abaf8bb00b60fcece1032436b7"
+    );
+    expect(positionOf(COLLECTION_LO)).toBe(
+      "0x1958e759291b2bde460cdf2158dea8d0f5c4e22c77ecd09d3ca6a36f01616e02"
+    );
+    expect(positionOf(COLLECTION_A_OR_B_AND_LO)).toBe(
+      "0x994b964b94eb15148726de8caa08cac559ec51a90fcbc9cc19aadfdc809f34c9"
+    );
+  });
+});
+
+describe("Polymarket outcome token IDs", () => {
+  // Binary condition from the guide, collateralized like a Polymarket market.
+  const standard = [
+    "46636312431021041806768202738843588145933483995967443364841474222250990575425",
+    "17236755550823036991558794070297404911370291197053785569988895903071614708254",
+  ];
+  const negRisk = [
+    "48235379925192121495962725677576638068410452684364757139924596540341913750895",
+    "101585719624168737666586907237062631032386528431093319414469143335100364343113",
+  ];
+
+  it("uses USDC.e for standard markets and the wrapped collateral for neg-risk markets", () => {
+    expect(getOutcomeTokenIds({ conditionId: SCALAR.conditionId })).toEqual(standard);
+    expect(getOutcomeTokenIds({ conditionId: SCALAR.conditionId, negRisk: true })).toEqual(
+      negRisk
+    );
+  });
+
+  it("verifies clobTokenIds and rejects mismatches", () => {
+    const conditionId = SCALAR.conditionId;
+    expect(verifyClobTokenIds({ conditionId, clobTokenIds: standard })).toBe(true);
+    expect(verifyClobTokenIds({ conditionId, clobTokenIds: negRisk, negRisk: true })).toBe(true);
+
+    // Swapped outcome order, wrong collateral and a foreign condition all fail.
+    expect(verifyClobTokenIds({ conditionId, clobTokenIds: [...standard].reverse() })).toBe(false);
+    expect(verifyClobTokenIds({ conditionId, clobTokenIds: negRisk })).toBe(false);
+    expect(
+      verifyClobTokenIds({ conditionId: CATEGORICAL.conditionId, clobTokenIds: standard })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { OperationType, type SafeTransaction } from "@polymarket/builder-relayer-client";
+import { getContractConfig } from "@polymarket/builder-relayer-client/dist/config/index.js";
+import { createSafeMultisendTransaction } from "@polymarket/builder-relayer-client/dist/encode/safe.js";
+import { encodeFunctionData, erc20Abi, getAddress } from "viem";
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_CHAIN_ID } from "../src/constants.js";
+import { describeSafeTransaction } from "../src/describe.js";
+import { createNegRiskRedeemTx } from "../src/redeem.js";
+import { createSplitPositionTx } from "../src/split.js";
+import { CTF_EXCHANGE_ADDRESS, USDC_E_CONTRACT_ADDRESS } from "../src/tokens.js";
+
+const CONDITION_ID = "0x3bdb7de3d0860745c0cac9c1dcc8e0d9cb7d33e6a899c2c298343ccedf1d66cf";
+const UNKNOWN_TARGET = "0x4444444444444444444444444444444444444444";
+
+const approveTx: SafeTransaction = {
+  to: USDC_E_CONTRACT_ADDRESS,
+  operation: OperationType.Call,
+  data: encodeFunctionData({
+    abi: erc20Abi,
+    functionName: "approve",
+    args: [CTF_EXCHANGE_ADDRESS, 250_000_000n],
+  }),
+  value: "0",
+};
+const splitTx = createSplitPositionTx({
+  conditionId: CONDITION_ID,
+  partition: [1n, 2n],
+  amount: 10_000_000n,
+});
+const redeemTx = createNegRiskRedeemTx({
+  conditionId: CONDITION_ID,
+  amounts: [3_500_000n, 0n],
+});
+const unknownTx: SafeTransaction = {
+  to: UNKNOWN_TARGET,
+  operation: OperationType.Call,
+  data: "0xdeadbeef",
+  value: "0",
+};
+
+function multisend(txs: SafeTransaction[]): SafeTransaction {
+  const address = getContractConfig(DEFAULT_CHAIN_ID).SafeContracts.SafeMultisend;
+  return createSafeMultisendTransaction(txs, address);
+}
+
+describe("describeSafeTransaction", () => {
+  it("decodes single calls to known contracts", () => {
+    expect(describeSafeTransaction(approveTx)).toMatchObject({
+      targetName: "USDC.e",
+      recognized: true,
+      functionName: "approve",
+      args: { spender: CTF_EXCHANGE_ADDRESS, amount: 250_000_000n },
+      summary: "Approve CTF Exchange to spend 250.00 USDC.e",
+    });
+  });
+
+  it("expands a MultiSend batch into its inner calls", () => {
+    const description = describeSafeTransaction(
+      multisend([approveTx, splitTx, redeemTx, unknownTx])
+    );
+
+    expect(description).toMatchObject({
+      targetName: "MultiSend",
+      recognized: true,
+      functionName: "multiSend",
+    });
+    // Inner targets come back checksummed.
+    expect(description.calls?.map((c) => [c.to, c.functionName, c.recognized])).toEqual([
+      [USDC_E_CONTRACT_ADDRESS, "approve", true],
+      [getAddress(splitTx.to), "splitPosition", true],
+      [getAddress(redeemTx.to), "redeemPositions", true],
+      [UNKNOWN_TARGET, undefined, false],
+    ]);
+    expect(description.calls?.[1]?.args).toMatchObject({
+      conditionId: CONDITION_ID,
+      partition: [1n, 2n],
+      amount: 10_000_000n,
+    });
+    expect(description.calls?.[2]?.args).toEqual({
+      conditionId: CONDITION_ID,
+      amounts: [3_500_000n, 0n],
+    });
+    expect(description.calls?.[3]?.data).toBe("0xdeadbeef");
+    expect(description.summary).toBe(
+      "Batch of 4 call(s): " +
+        "Approve CTF Exchange to spend 250.00 USDC.e; " +
+        "Split 10.00 USDC.e on condition 0x3bdb…66cf into [1,2]; " +
+        "Redeem neg-risk positions on condition 0x3bdb…66cf (amounts [3.50, 0.00]); " +
+        `Call ${UNKNOWN_TARGET} with 4 bytes of calldata`
+    );
+  });
+
+  it("falls back to the raw view for an unknown selector on a known contract", () => {
+    const description = describeSafeTransaction({ ...approveTx, data: "0x12345678" });
+    expect(description).toMatchObject({ targetName: "USDC.e", recognized: false });
+    expect(description.functionName).toBeUndefined();
+  });
+});
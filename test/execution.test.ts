@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { ExecutionTracker } from "../src/execution.js";
+import type { ExecutionResponse } from "../src/types.js";
+
+function relayResponse(states: string[][]): ExecutionResponse {
+  return {
+    transactionID: "tx-1",
+    state: "STATE_NEW",
+    wait: async () => undefined,
+    getTransaction: async () => (states.shift() ?? []).map((state) => ({ state })),
+  };
+}
+
+describe("ExecutionTracker.wait", () => {
+  it("follows the relay until it is mined", async () => {
+    const tracker = new ExecutionTracker(
+      relayResponse([["STATE_EXECUTED"], ["STATE_MINED"]]),
+      "http://127.0.0.1:1"
+    );
+    const result = await tracker.wait({ pollIntervalMs: 1 });
+    expect(result).toMatchObject({ success: true, pending: false, timedOut: false });
+    expect(result.stateTransitions.map((t) => t.state)).toEqual([
+      "STATE_NEW",
+      "STATE_EXECUTED",
+      "STATE_MINED",
+    ]);
+  });
+
+  it("resolves a relay that never leaves STATE_NEW as timed out with its handle", async () => {
+    const tracker = new ExecutionTracker(relayResponse([]), "http://127.0.0.1:1");
+    const result = await tracker.wait({ waitTimeoutMs: 20, pollIntervalMs: 5 });
+    expect(result).toMatchObject({ success: false, pending: true, timedOut: true });
+    expect(result.handle).toBe(tracker);
+  });
+
+  it("times out a backend without state lookups", async () => {
+    const tracker = new ExecutionTracker(
+      { transactionID: "0xhash", wait: () => new Promise(() => {}) },
+      "http://127.0.0.1:1"
+    );
+    const result = await tracker.wait({ waitTimeoutMs: 10 });
+    expect(result).toMatchObject({ pending: true, timedOut: true });
+  });
+});
@@ -0,0 +1,119 @@
+import type { OpenOrder, Trade, TradeParams } from "@polymarket/clob-client";
+
+import type { OrderTrackerClob } from "../src/order-tracker.js";
+
+type FakeOrder = {
+  id: string;
+  status: string;
+  asset_id: string;
+  market: string;
+  side: "BUY" | "SELL";
+  price: string;
+  original_size: string;
+  size_matched: string;
+  order_type: string;
+  expiration: string;
+};
+
+/**
+ * In-memory CLOB serving GET /data/order and GET /data/trades for OrderTracker tests.
+ */
+export class FakeClob implements OrderTrackerClob {
+  readonly orders = new Map<string, FakeOrder>();
+  readonly trades: Trade[] = [];
+  /**
+   * When set, the next request resolves to this `{ error, status }` payload (like ClobClient does).
+   */
+  failNext: { error: string; status: number } | undefined;
+
+  place(params: {
+    id: string;
+    size: number;
+    price: number;
+    side?: "BUY" | "SELL";
+    tokenId?: string;
+    expiresAtSeconds?: number;
+  }): void {
+    this.orders.set(params.id, {
+      id: params.id,
+      status: "LIVE",
+      asset_id: params.tokenId ?? "token-1",
+      market: "0xcondition",
+      side: params.side ?? "BUY",
+      price: String(params.price),
+      original_size: String(params.size),
+      size_matched: "0",
+      order_type: params.expiresAtSeconds ? "GTD" : "GTC",
+      expiration: String(params.expiresAtSeconds ?? 0),
+    });
+  }
+
+  /**
+   * Matches `size` shares of the order in a new trade, as its taker (default) or one of its makers.
+   */
+  fill(
+    orderId: string,
+    size: number,
+    price: number,
+    trade: { id: string; transactionHash: string; status?: string; role?: "TAKER" | "MAKER" }
+  ): void {
+    const order = this.mustGet(orderId);
+    const matched = Number(order.size_matched) + size;
+    order.size_matched = String(matched);
+    if (matched >= Number(order.original_size)) order.status = "MATCHED";
+
+    const asMaker = trade.role === "MAKER";
+    this.trades.push({
+      id: trade.id,
+      taker_order_id: asMaker ? "someone-else" : orderId,
+      market: order.market,
+      asset_id: order.asset_id,
+      side: order.side,
+      size: String(size),
+      price: String(price),
+      status: trade.status ?? "MATCHED",
+      transaction_hash: trade.transactionHash,
+      maker_orders: asMaker
+        ? [{ order_id: orderId, matched_amount: String(size), price: String(price) }]
+        : [],
+      match_time: "0",
+    } as unknown as Trade);
+  }
+
+  setTradeStatus(tradeId: string, status: string): void {
+    const trade = this.trades.find((t) => t.id === tradeId);
+    if (!trade) throw new Error(`Unknown trade ${tradeId}`);
+    trade.status = status;
+  }
+
+  cancel(orderId: string): void {
+    this.mustGet(orderId).status = "CANCELED";
+  }
+
+  async getOrder(orderId: string): Promise<OpenOrder> {
+    const failure = this.takeFailure();
+    if (failure) return failure as unknown as OpenOrder;
+    const order = this.orders.get(orderId);
+    return (order ? { ...order } : null) as unknown as OpenOrder;
+  }
+
+  async getTrades(params?: TradeParams): Promise<Trade[]> {
+    const failure = this.takeFailure();
+    if (failure) return failure as unknown as Trade[];
+    return this.trades
+      .filter((t) => !params?.asset_id || t.asset_id === params.asset_id)
+      .map((t) => ({ ...t }));
+  }
+
+  private takeFailure() {
+    const failure = this.failNext;
+    this.failNext = undefined;
+    return failure;
+  }
+
+  private mustGet(orderId: string): FakeOrder {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    return order;
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+
+import { RequestTimeoutError } from "../src/errors.js";
+import { RequestLayer } from "../src/http.js";
+import type { HttpConfig } from "../src/types.js";
+
+function setup(replies: Array<Response | Error>, config?: Omit<HttpConfig, "sleep" | "now" | "random">) {
+  let nowMs = 0;
+  const sleeps: number[] = [];
+  const urls: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    urls.push(String(input));
+    const reply = replies.shift();
+    if (!reply) return new Response("ok");
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }) as typeof fetch;
+  const layer = new RequestLayer({
+    fetchFn,
+    config: {
+      ...config,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        nowMs += ms;
+      },
+      now: () => nowMs,
+      random: () => 0.5,
+    },
+  });
+  return { layer, sleeps, urls };
+}
+
+function networkError(): Error {
+  return Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } });
+}
+
+describe("RequestLayer rate limits", () => {
+  it("keeps /book and /books in separate buckets", async () => {
+    const { layer, sleeps } = setup([], {
+      rateLimits: {
+        "clob.example.com/book": { requests: 1, intervalMs: 1_000 },
+        "clob.example.com/books": { requests: 1, intervalMs: 1_000 },
+      },
+    });
+
+    await layer.fetch("https://clob.example.com/book?token_id=1");
+    await layer.fetch("https://clob.example.com/books");
+    expect(sleeps).toEqual([]);
+
+    await layer.fetch("https://clob.example.com/book/sub");
+    expect(sleeps).toEqual([1_000]);
+  });
+
+  it("applies host-wide keys to every path on that host only", async () => {
+    const { layer, sleeps } = setup([], {
+      rateLimits: { "clob.example.com": { requests: 1, intervalMs: 500 } },
+    });
+    await layer.fetch("https://clob.example.com/book");
+    await layer.fetch("https://other.example.com/book");
+    expect(sleeps).toEqual([]);
+    await layer.fetch("https://clob.example.com/prices");
+    expect(sleeps).toEqual([500]);
+  });
+});
+
+describe("RequestLayer retries", () => {
+  const noLimits = { rateLimits: false } as const;
+
+  it("retries 503 with backoff and honours Retry-After on 429", async () => {
+    const { layer, sleeps, urls } = setup(
+      [
+        new Response("down", { status: 503 }),
+        new Response("slow down", { status: 429, headers: { "retry-after": "2" } }),
+        new Response("ok"),
+      ],
+      noLimits
+    );
+
+    const res = await layer.fetch("https://api.example.com/x");
+    expect(res.status).toBe(200);
+    expect(urls).toHaveLength(3);
+    expect(sleeps).toEqual([250, 2_000]);
+  });
+
+  it("returns a 429 as is when Retry-After exceeds maxRetryAfterMs", async () => {
+    const { layer, urls } = setup(
+      [new Response("later", { status: 429, headers: { "retry-after": "120" } })],
+      noLimits
+    );
+    expect((await layer.fetch("https://api.example.com/x")).status).toBe(429);
+    expect(urls).toHaveLength(1);
+  });
+
+  it("cancels the body of a response it retries", async () => {
+    let cancelled = false;
+    const body = new ReadableStream({
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+    const { layer } = setup([new Response(body, { status: 503 })], noLimits);
+    expect((await layer.fetch("https://api.example.com/x")).status).toBe(200);
+    expect(cancelled).toBe(true);
+  });
+
+  it("does not retry client errors", async () => {
+    const { layer, urls } = setup([new Response("bad", { status: 400 })], noLimits);
+    expect((await layer.fetch("https://api.example.com/x")).status).toBe(400);
+    expect(urls).toHaveLength(1);
+  });
+
+  it("retries network errors and gives up after maxRetries", async () => {
+    const { layer, urls } = setup(
+      [networkError(), networkError(), networkError()],
+      { ...noLimits, retry: { maxRetries: 2 } }
+    );
+    await expect(layer.fetch("https://api.example.com/x")).rejects.toThrow("fetch failed");
+    expect(urls).toHaveLength(3);
+  });
+
+  it("throws RequestTimeoutError when a request exceeds timeoutMs", async () => {
+    const hanging = (async (_input: RequestInfo | URL, init?: RequestInit) =>
+      new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })) as typeof fetch;
+    const layer = new RequestLayer({
+      fetchFn: hanging,
+      config: { timeoutMs: 5, retry: false, rateLimits: false },
+    });
+    await expect(layer.fetch("https://api.example.com/x")).rejects.toBeInstanceOf(
+      RequestTimeoutError
+    );
+  });
+});
+
+describe("RequestLayer.call", () => {
+  const noLimits = { rateLimits: false } as const;
+
+  it("retries network errors and retryable { error, status } results", async () => {
+    const { layer, sleeps } = setup([], noLimits);
+    const outcomes: Array<() => unknown> = [
+      () => {
+        throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+      },
+      () => ({ error: "Service Unavailable", status: 503 }),
+      () => ({ ok: true }),
+    ];
+    let calls = 0;
+    const result = await layer.call("https://clob.example.com/order", async () => {
+      calls++;
+      return outcomes.shift()!();
+    });
+    expect(result).toEqual({ ok: true });
+    expect(calls).toBe(3);
+    expect(sleeps).toHaveLength(2);
+  });
+
+  it("does not retry bugs or non-retryable statuses", async () => {
+    const { layer } = setup([], noLimits);
+    let calls = 0;
+    await expect(
+      layer.call("https://clob.example.com/order", async () => {
+        calls++;
+        throw new TypeError("Cannot read properties of undefined (reading 'x')");
+      })
+    ).rejects.toBeInstanceOf(TypeError);
+    expect(calls).toBe(1);
+
+    calls = 0;
+    const result = await layer.call("https://clob.example.com/order", async () => {
+      calls++;
+      return { error: "Unauthorized", status: 401 };
+    });
+    expect(result).toEqual({ error: "Unauthorized", status: 401 });
+    expect(calls).toBe(1);
+  });
+});
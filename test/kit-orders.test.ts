@@ -0,0 +1,88 @@
+import type { ClobClient } from "@polymarket/clob-client";
+import { Wallet } from "ethers";
+import { describe, expect, it } from "vitest";
+
+import { PolymarketTradingKit } from "../src/kit.js";
+
+function kitWithFetch(fetchFn: typeof fetch) {
+  const signer = Wallet.createRandom();
+  return new PolymarketTradingKit({
+    config: {
+      rpcUrl: "http://127.0.0.1:1",
+      remoteSigning: { url: "http://127.0.0.1:1" },
+      fetchFn,
+      http: { retry: false, rateLimits: false },
+    },
+    eoaAddress: signer.address as `0x${string}`,
+    signer,
+  });
+}
+
+const unreachableClob = {} as ClobClient;
+
+describe("order creation during a CLOB outage", () => {
+  const failingFetch = (async () => {
+    throw Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNREFUSED" } });
+  }) as typeof fetch;
+  const unavailableFetch = (async () =>
+    new Response("upstream down", { status: 503 })) as typeof fetch;
+
+  it("returns a failed result from createLimitOrder when the metadata lookup throws", async () => {
+    const kit = kitWithFetch(failingFetch);
+    const result = await kit.createLimitOrder(unreachableClob, {
+      tokenId: "123",
+      side: "BUY",
+      price: 0.5,
+      size: 10,
+    });
+    expect(result).toMatchObject({ success: false, errorCode: "UNKNOWN" });
+    expect(result.errorMsg).toContain("fetch failed");
+  });
+
+  it("returns an HTTP_ERROR result from createMarketOrder when the CLOB answers 503", async () => {
+    const kit = kitWithFetch(unavailableFetch);
+    const result = await kit.createMarketOrder(unreachableClob, {
+      tokenId: "123",
+      side: "BUY",
+      amountUsdc: 5,
+    });
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "HTTP_ERROR",
+      raw: { httpStatus: 503 },
+    });
+  });
+});
+
+describe("replaceOrder", () => {
+  it("rejects a GTD replacement expiring within a minute before canceling", async () => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const canceled: string[][] = [];
+    const clob = {
+      getOrder: async (id: string) => ({
+        id,
+        status: "LIVE",
+        asset_id: "123",
+        market: "0xcondition",
+        side: "BUY",
+        price: "0.5",
+        original_size: "10",
+        size_matched: "0",
+        order_type: "GTD",
+        expiration: String(nowSeconds + 3_600),
+      }),
+      cancelOrders: async (ids: string[]) => {
+        canceled.push(ids);
+        return { canceled: ids, not_canceled: {} };
+      },
+    } as unknown as ClobClient;
+    const kit = kitWithFetch((async () => new Response("{}")) as typeof fetch);
+
+    const soon = await kit.replaceOrder(clob, "order-1", {
+      price: 0.45,
+      expirationUnixSeconds: nowSeconds + 30,
+    });
+    expect(soon).toMatchObject({ outcome: "invalid_changes", oldOrder: { orderId: "order-1" } });
+    expect(canceled).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import type { SafeTransaction } from "@polymarket/builder-relayer-client";
+import { Wallet } from "ethers";
+import { decodeFunctionData } from "viem";
+import { describe, expect, it } from "vitest";
+
+import { ctfAbi, negRiskAdapterAbi } from "../src/abis.js";
+import type { PolymarketPosition } from "../src/data.js";
+import { PolymarketTradingKit } from "../src/kit.js";
+import { CTF_CONTRACT_ADDRESS, NEG_RISK_ADAPTER_ADDRESS } from "../src/tokens.js";
+import type { ExecutionBackend, HexAddress } from "../src/types.js";
+
+const SAFE = "0x5afe5afe5afe5afe5afe5afe5afe5afe5afe5afe" as HexAddress;
+const STANDARD = `0x${"a1".repeat(32)}`;
+const NEG_RISK = `0x${"b2".repeat(32)}`;
+const OTHER = `0x${"c3".repeat(32)}`;
+
+function position(
+  conditionId: string,
+  outcomeIndex: number,
+  size: number,
+  negativeRisk = false
+): PolymarketPosition {
+  return {
+    proxyWallet: SAFE,
+    asset: `${conditionId}-${outcomeIndex}`,
+    conditionId,
+    size,
+    avgPrice: 0.5,
+    currentValue: size,
+    redeemable: true,
+    mergeable: true,
+    title: "Test market",
+    slug: "test-market",
+    outcome: outcomeIndex === 0 ? "Yes" : "No",
+    outcomeIndex,
+    endDate: "2026-01-01",
+    negativeRisk,
+  };
+}
+
+/**
+ * Kit whose Data API serves `pageOf(offset)` for every /positions request.
+ */
+function kitWithPositions(pageOf: (offset: number) => PolymarketPosition[]) {
+  const offsets: number[] = [];
+  const fetchFn = (async (input: unknown) => {
+    const url = new URL(String(input));
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    offsets.push(offset);
+    return new Response(JSON.stringify(pageOf(offset)), {
+      headers: { "content-type": "application/json" },
+    });
+  }) as typeof fetch;
+
+  const signer = Wallet.createRandom();
+  const kit = new PolymarketTradingKit({
+    config: {
+      rpcUrl: "http://127.0.0.1:1",
+      remoteSigning: { url: "http://127.0.0.1:1" },
+      fetchFn,
+      http: { retry: false, rateLimits: false },
+    },
+    eoaAddress: signer.address as `0x${string}`,
+    signer,
+  });
+  return { kit, offsets };
+}
+
+/**
+ * Backend that records each execute call and reports it mined on the first poll.
+ */
+function recordingBackend() {
+  const batches: SafeTransaction[][] = [];
+  const backend: ExecutionBackend = {
+    execute: async (txs) => {
+      batches.push(txs);
+      return {
+        transactionID: `tx-${batches.length}`,
+        state: "STATE_NEW",
+        wait: async () => undefined,
+        getTransaction: async () => [{ state: "STATE_MINED" }],
+      };
+    },
+  };
+  return { backend, batches };
+}
+
+describe("redeemAll", () => {
+  const positions = [
+    position(STANDARD, 0, 5),
+    position(NEG_RISK, 0, 2.5, true),
+    position(STANDARD, 1, 3),
+    position(NEG_RISK, 1, 1.25, true),
+    position(OTHER, 1, 4),
+  ];
+
+  it("redeems each condition once and batches conditions per execute call", async () => {
+    const { kit } = kitWithPositions((offset) => (offset === 0 ? positions : []));
+    const { backend, batches } = recordingBackend();
+
+    const result = await kit.redeemAll(backend, SAFE, {
+      batchSize: 2,
+      checkOnChainBalances: false,
+      pollIntervalMs: 1,
+    });
+
+    expect(result.truncated).toBe(false);
+    expect(result.reports.map((r) => [r.conditionId, r.status, r.transactionId])).toEqual([
+      [STANDARD, "redeemed", "tx-1"],
+      [NEG_RISK, "redeemed", "tx-1"],
+      [OTHER, "redeemed", "tx-2"],
+    ]);
+    expect(batches.map((txs) => txs.length)).toEqual([2, 1]);
+
+    const [standardTx, negRiskTx] = batches[0]!;
+    expect(standardTx!.to).toBe(CTF_CONTRACT_ADDRESS);
+    const standard = decodeFunctionData({ abi: ctfAbi, data: standardTx!.data as `0x${string}` });
+    expect(standard.functionName).toBe("redeemPositions");
+    expect(standard.args?.[2]).toBe(STANDARD);
+    expect(standard.args?.[3]).toEqual([1n, 2n]);
+
+    expect(negRiskTx!.to).toBe(NEG_RISK_ADAPTER_ADDRESS);
+    const negRisk = decodeFunctionData({
+      abi: negRiskAdapterAbi,
+      data: negRiskTx!.data as `0x${string}`,
+    });
+    expect(negRisk.functionName).toBe("redeemPositions");
+    expect(negRisk.args).toEqual([NEG_RISK, [2_500_000n, 1_250_000n]]);
+
+    // A condition holding only the NO side still redeems both index sets.
+    const other = decodeFunctionData({ abi: ctfAbi, data: batches[1]![0]!.data as `0x${string}` });
+    expect(other.args?.[3]).toEqual([1n, 2n]);
+  });
+
+  it("skips zero balances and reports a truncated sweep", async () => {
+    const full = Array.from({ length: 500 }, () => position(STANDARD, 0, 0));
+    const { kit, offsets } = kitWithPositions(() => full);
+    const { backend, batches } = recordingBackend();
+
+    const result = await kit.redeemAll(backend, SAFE, { checkOnChainBalances: false });
+
+    expect(offsets).toHaveLength(21);
+    expect(offsets.at(-1)).toBe(10_000);
+    expect(result.truncated).toBe(true);
+    expect(result.reports).toEqual([
+      expect.objectContaining({
+        conditionId: STANDARD,
+        status: "skipped",
+        reason: "Position balance is zero",
+      }),
+    ]);
+    expect(batches).toEqual([]);
+  });
+});
+
+describe("mergeAllMergeable", () => {
+  const positions = [
+    position(STANDARD, 0, 5),
+    position(STANDARD, 1, 3),
+    position(NEG_RISK, 0, 2, true),
+    position(NEG_RISK, 1, 2.5, true),
+    position(OTHER, 0, 4),
+  ];
+
+  it("plans the smaller complementary balance per condition without a backend", async () => {
+    const { kit } = kitWithPositions((offset) => (offset === 0 ? positions : []));
+
+    const result = await kit.mergeAllMergeable(undefined, SAFE, {
+      dryRun: true,
+      checkOnChainBalances: false,
+    });
+
+    expect(result).toEqual({
+      truncated: false,
+      reports: [
+        {
+          conditionId: STANDARD,
+          negativeRisk: false,
+          status: "planned",
+          partition: [1n, 2n],
+          amount: 3_000_000n,
+        },
+        {
+          conditionId: NEG_RISK,
+          negativeRisk: true,
+          status: "planned",
+          partition: [1n, 2n],
+          amount: 2_000_000n,
+        },
+        {
+          conditionId: OTHER,
+          negativeRisk: false,
+          status: "skipped",
+          partition: [1n, 2n],
+          amount: 0n,
+          reason: "Missing complementary outcome balance",
+        },
+      ],
+    });
+  });
+
+  it("requires a backend unless dryRun is set", async () => {
+    const { kit } = kitWithPositions(() => positions);
+    await expect(kit.mergeAllMergeable(undefined, SAFE)).rejects.toThrow(
+      "backend is required unless dryRun is true"
+    );
+  });
+
+  it("merges planned conditions in one batch", async () => {
+    const { kit } = kitWithPositions((offset) => (offset === 0 ? positions : []));
+    const { backend, batches } = recordingBackend();
+
+    const result = await kit.mergeAllMergeable(backend, SAFE, {
+      checkOnChainBalances: false,
+      pollIntervalMs: 1,
+    });
+
+    expect(result.reports.map((r) => r.status)).toEqual(["merged", "merged", "skipped"]);
+    expect(batches).toHaveLength(1);
+    const [standardTx, negRiskTx] = batches[0]!;
+
+    const standard = decodeFunctionData({ abi: ctfAbi, data: standardTx!.data as `0x${string}` });
+    expect(standard.functionName).toBe("mergePositions");
+    expect(standard.args?.slice(2)).toEqual([STANDARD, [1n, 2n], 3_000_000n]);
+
+    expect(negRiskTx!.to).toBe(NEG_RISK_ADAPTER_ADDRESS);
+    const negRisk = decodeFunctionData({
+      abi: negRiskAdapterAbi,
+      data: negRiskTx!.data as `0x${string}`,
+    });
+    expect(negRisk.functionName).toBe("mergePositions");
+    expect(negRisk.args).toEqual([NEG_RISK, 2_000_000n]);
+  });
+});
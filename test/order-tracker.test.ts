@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+
+import { ApiHttpError } from "../src/errors.js";
+import { OrderTracker } from "../src/order-tracker.js";
+import type { OrderLifecycleEvent, SettlementStatus } from "../src/types.js";
+import { FakeClob } from "./fake-clob.js";
+
+function setup(options?: {
+  receipts?: Record<string, SettlementStatus>;
+  settlementTimeoutMs?: number;
+}) {
+  const clob = new FakeClob();
+  let nowMs = 1_700_000_000_000;
+  const tracker = new OrderTracker({
+    clobClient: clob,
+    now: () => nowMs,
+    ...(options?.receipts
+      ? { getReceiptStatus: async (hash: string) => options.receipts![hash] ?? "pending" }
+      : {}),
+    ...(options?.settlementTimeoutMs !== undefined
+      ? { settlementTimeoutMs: options.settlementTimeoutMs }
+      : {}),
+  });
+  const events: OrderLifecycleEvent[] = [];
+  tracker.on((event) => events.push(event));
+  return {
+    clob,
+    tracker,
+    events,
+    types: () => events.map((e) => e.type),
+    advance: (ms: number) => {
+      nowMs += ms;
+    },
+    nowSeconds: () => Math.floor(nowMs / 1000),
+  };
+}
+
+describe("OrderTracker", () => {
+  it("reports placed → partially filled → filled with the average fill price", async () => {
+    const { clob, tracker, events, types } = setup();
+    clob.place({ id: "o1", size: 10, price: 0.5 });
+    tracker.track({ success: true, orderId: "o1", status: "live" });
+    expect(types()).toEqual(["placed"]);
+
+    await tracker.poll();
+    expect(tracker.get("o1")?.status).toBe("live");
+
+    clob.fill("o1", 4, 0.5, { id: "t1", transactionHash: "0xh1", role: "MAKER" });
+    await tracker.poll();
+    expect(types()).toEqual(["placed", "partially_filled"]);
+    expect(tracker.get("o1")).toMatchObject({ status: "partially_filled", filledSize: 4 });
+
+    clob.fill("o1", 6, 0.52, { id: "t2", transactionHash: "0xh2" });
+    await tracker.poll();
+    expect(types()).toEqual(["placed", "partially_filled", "filled"]);
+    const filled = events[2];
+    expect(filled?.type === "filled" && filled.fillDelta).toBe(6);
+
+    const order = tracker.get("o1")!;
+    expect(order.status).toBe("filled");
+    expect(order.filledSize).toBe(10);
+    expect(order.averageFillPrice).toBeCloseTo(0.512, 10);
+    expect(order.fills.map((f) => f.role)).toEqual(["MAKER", "TAKER"]);
+  });
+
+  it("reports a cancel after a partial fill and keeps the filled size", async () => {
+    const { clob, tracker, types } = setup({ receipts: {} });
+    clob.place({ id: "o1", size: 10, price: 0.4, side: "SELL" });
+    tracker.track("o1");
+
+    clob.fill("o1", 3, 0.4, { id: "t1", transactionHash: "0xh1", status: "CONFIRMED" });
+    clob.cancel("o1");
+    await tracker.poll();
+
+    expect(types()).toEqual(["placed", "partially_filled", "canceled", "settlement_mined"]);
+    expect(tracker.get("o1")).toMatchObject({ status: "canceled", filledSize: 3, final: true });
+    expect(tracker.get("o1")?.averageFillPrice).toBeCloseTo(0.4, 10);
+
+    // Final orders are no longer polled and emit nothing more.
+    expect(await tracker.poll()).toEqual([]);
+  });
+
+  it("reports an expired GTD order as expired, not canceled", async () => {
+    const { clob, tracker, types, advance, nowSeconds } = setup();
+    clob.place({ id: "o1", size: 5, price: 0.3, expiresAtSeconds: nowSeconds() + 60 });
+    tracker.track({ success: true, orderId: "o1", status: "live" });
+    await tracker.poll();
+
+    advance(61_000);
+    // The CLOB reports expired GTD orders as canceled.
+    clob.cancel("o1");
+    await tracker.poll();
+
+    expect(types()).toEqual(["placed", "expired"]);
+    expect(tracker.get("o1")).toMatchObject({ status: "expired", filledSize: 0, final: true });
+  });
+
+  it("reports settlement mined and failed from trade status and receipts", async () => {
+    const receipts: Record<string, SettlementStatus> = {};
+    const { clob, tracker, events } = setup({ receipts });
+    clob.place({ id: "o1", size: 10, price: 0.5 });
+    tracker.track({ success: true, orderId: "o1", status: "matched", transactionHashes: ["0xh0"] });
+
+    clob.fill("o1", 5, 0.5, { id: "t1", transactionHash: "0xh1" });
+    clob.fill("o1", 5, 0.5, { id: "t2", transactionHash: "0xh2" });
+    await tracker.poll();
+    expect(tracker.get("o1")?.final).toBe(false);
+
+    clob.setTradeStatus("t1", "MINED");
+    clob.setTradeStatus("t2", "FAILED");
+    receipts["0xh0"] = "mined";
+    await tracker.poll();
+
+    const settlements = events
+      .filter((e) => e.type.startsWith("settlement_"))
+      .map((e) => [e.type, "transactionHash" in e ? e.transactionHash : undefined]);
+    expect(settlements).toEqual([
+      ["settlement_mined", "0xh0"],
+      ["settlement_mined", "0xh1"],
+      ["settlement_failed", "0xh2"],
+    ]);
+    // The failed trade does not count towards the average price.
+    expect(tracker.get("o1")?.averageFillPrice).toBeCloseTo(0.5, 10);
+    expect(tracker.get("o1")?.final).toBe(true);
+  });
+
+  it("gives up on hashes nothing reports once the settlement timeout passes", async () => {
+    const { clob, tracker, types, advance } = setup({ settlementTimeoutMs: 60_000 });
+    clob.place({ id: "o1", size: 1, price: 0.5 });
+    tracker.track({ success: true, orderId: "o1", status: "matched", transactionHashes: ["0xlost"] });
+    clob.fill("o1", 1, 0.5, { id: "t1", transactionHash: "0xh1", status: "CONFIRMED" });
+
+    await tracker.poll();
+    expect(tracker.get("o1")?.final).toBe(false);
+
+    advance(60_000);
+    await tracker.poll();
+    expect(types()).toContain("settlement_unknown");
+    expect(tracker.get("o1")).toMatchObject({
+      settlements: { "0xlost": "unknown", "0xh1": "mined" },
+      final: true,
+    });
+  });
+
+  it("keeps delivering events when a listener throws", async () => {
+    const { clob } = setup();
+    const listenerErrors: unknown[] = [];
+    const guarded = new OrderTracker({
+      clobClient: clob,
+      onListenerError: (err) => listenerErrors.push(err),
+    });
+    const seen: string[] = [];
+    guarded.on(() => {
+      throw new Error("listener bug");
+    });
+    guarded.on((event) => seen.push(event.type));
+
+    clob.place({ id: "o1", size: 2, price: 0.5 });
+    guarded.track("o1");
+    clob.fill("o1", 2, 0.5, { id: "t1", transactionHash: "0xh1", status: "CONFIRMED" });
+    await expect(guarded.poll()).resolves.toHaveLength(3);
+
+    expect(seen).toEqual(["placed", "filled", "settlement_mined"]);
+    expect(listenerErrors).toHaveLength(3);
+  });
+
+  it("throws ApiHttpError when the CLOB rejects a request", async () => {
+    const { clob, tracker } = setup();
+    clob.place({ id: "o1", size: 1, price: 0.5 });
+    tracker.track("o1");
+    clob.failNext = { error: "Unauthorized/Invalid api key", status: 401 };
+
+    const err = await tracker.poll().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ApiHttpError);
+    expect((err as ApiHttpError).status).toBe(401);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import type { OrderBookSummary } from "../src/data.js";
+import { InvalidArgumentError } from "../src/errors.js";
+import { estimateFill, getBookDepth, getMaxFillableSize, getMidPrice } from "../src/orderbook.js";
+
+type Levels = Array<[price: string, size: string]>;
+
+// The CLOB lists both sides best-last: bids ascending, asks descending.
+function book(bids: Levels, asks: Levels): OrderBookSummary {
+  return {
+    market: "0xcondition",
+    asset_id: "123",
+    timestamp: "0",
+    hash: "",
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+    min_order_size: "5",
+    tick_size: "0.01",
+    neg_risk: false,
+  };
+}
+
+const clobBook = book(
+  [
+    ["0.45", "300"],
+    ["0.47", "200"],
+    ["0.48", "100"],
+  ],
+  [
+    ["0.55", "400"],
+    ["0.52", "200"],
+    ["0.51", "100"],
+  ]
+);
+
+describe("order book analytics", () => {
+  it("sorts best-last CLOB levels best-first", () => {
+    expect(getMidPrice(clobBook)).toBe("0.495");
+    expect(getBookDepth(clobBook, "BUY")).toEqual([
+      { price: "0.51", size: "100", cumulativeSize: "100", cumulativeNotional: "51" },
+      { price: "0.52", size: "200", cumulativeSize: "300", cumulativeNotional: "155" },
+      { price: "0.55", size: "400", cumulativeSize: "700", cumulativeNotional: "375" },
+    ]);
+    expect(getBookDepth(clobBook, "SELL").map((l) => l.price)).toEqual(["0.48", "0.47", "0.45"]);
+  });
+
+  it("fills a size that ends part-way through a level with exact decimals", () => {
+    const fill = estimateFill(clobBook, { side: "BUY", size: "250.5" });
+    expect(fill).toMatchObject({
+      filledSize: "250.5",
+      notional: "129.26",
+      fullyFilled: true,
+      worstPrice: "0.52",
+      bestPrice: "0.51",
+      levelsConsumed: 2,
+    });
+    // 129.26 / 250.5, rounded down at the 18th decimal.
+    expect(fill.vwap).toBe("0.516007984031936127");
+  });
+
+  it("walks a notional target on the bid side", () => {
+    const fill = estimateFill(clobBook, { side: "SELL", notional: 100 });
+    expect(fill).toMatchObject({
+      filledSize: "210.638297872340425531",
+      fullyFilled: true,
+      worstPrice: "0.47",
+      levelsConsumed: 2,
+    });
+    // One 1e-18 short of the target from the notional → size division.
+    expect(fill.notional).toBe("99.999999999999999999");
+  });
+
+  it("reports a partial fill when the book runs out", () => {
+    const bySize = estimateFill(clobBook, { side: "BUY", size: 1_000 });
+    expect(bySize).toMatchObject({ filledSize: "700", notional: "375", fullyFilled: false });
+
+    const byNotional = estimateFill(clobBook, { side: "BUY", notional: "375.000001" });
+    expect(byNotional).toMatchObject({ filledSize: "700", fullyFilled: false, levelsConsumed: 3 });
+  });
+
+  it("handles an empty side", () => {
+    const oneSided = book([["0.4", "10"]], []);
+    expect(getMidPrice(oneSided)).toBeUndefined();
+    expect(estimateFill(oneSided, { side: "BUY", size: 1 })).toEqual({
+      side: "BUY",
+      filledSize: "0",
+      notional: "0",
+      fullyFilled: false,
+      levelsConsumed: 0,
+    });
+    expect(getMaxFillableSize(oneSided, { side: "BUY", limitPrice: 1 })).toEqual({
+      side: "BUY",
+      limitPrice: "1",
+      size: "0",
+      notional: "0",
+    });
+  });
+
+  it("accepts exponent inputs", () => {
+    const tiny = book([], [["1e-4", "2.5E+3"]]);
+    expect(getBookDepth(tiny, "BUY")).toEqual([
+      { price: "0.0001", size: "2500", cumulativeSize: "2500", cumulativeNotional: "0.25" },
+    ]);
+    expect(estimateFill(tiny, { side: "BUY", notional: 1e-4 })).toMatchObject({
+      filledSize: "1",
+      notional: "0.0001",
+      fullyFilled: true,
+    });
+  });
+
+  it("caps the fillable size at the limit price", () => {
+    expect(getMaxFillableSize(clobBook, { side: "BUY", limitPrice: "0.52" })).toEqual({
+      side: "BUY",
+      limitPrice: "0.52",
+      size: "300",
+      notional: "155",
+      vwap: "0.516666666666666666",
+      worstPrice: "0.52",
+    });
+    expect(getMaxFillableSize(clobBook, { side: "SELL", limitPrice: 0.47 })).toMatchObject({
+      size: "300",
+      worstPrice: "0.47",
+    });
+  });
+
+  it("rejects negative prices, sizes and targets", () => {
+    expect(() => getBookDepth(book([], [["-0.5", "10"]]), "BUY")).toThrow(InvalidArgumentError);
+    expect(() => getBookDepth(book([], [["0.5", "-10"]]), "BUY")).toThrow(InvalidArgumentError);
+    expect(() => estimateFill(clobBook, { side: "BUY", size: "-1" })).toThrow(InvalidArgumentError);
+    expect(() => getMaxFillableSize(clobBook, { side: "SELL", limitPrice: -0.1 })).toThrow(
+      InvalidArgumentError
+    );
+    expect(() => estimateFill(clobBook, { side: "BUY", size: "abc" })).toThrow(InvalidArgumentError);
+  });
+});
@@ -0,0 +1,144 @@
+import { OperationType, type SafeTransaction } from "@polymarket/builder-relayer-client";
+import {
+  decodeFunctionData,
+  encodeErrorResult,
+  hexToBigInt,
+  parseAbi,
+  sliceHex,
+  type Hex,
+} from "viem";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { simulateSafeTransactions } from "../src/simulate.js";
+import type { HexAddress } from "../src/types.js";
+
+const SAFE = "0x5afe5afe5afe5afe5afe5afe5afe5afe5afe5afe" as HexAddress;
+const MULTISEND = "0x3333333333333333333333333333333333333333" as HexAddress;
+const TARGET = "0x4444444444444444444444444444444444444444" as HexAddress;
+
+// Fake target: "spend" uses up a single-use balance, "noop" always succeeds, "fail" always reverts.
+const SPEND = "0xaaaaaaaa" as Hex;
+const NOOP = "0xbbbbbbbb" as Hex;
+const FAIL = "0xcccccccc" as Hex;
+
+const multisendAbi = parseAbi(["function multiSend(bytes transactions)"]);
+const errorAbi = parseAbi(["error Error(string)"]);
+
+function tx(data: Hex): SafeTransaction {
+  return { to: TARGET, operation: OperationType.Call, data, value: "0" };
+}
+
+function unpackMultiSend(data: Hex): Hex[] {
+  const { args } = decodeFunctionData({ abi: multisendAbi, data });
+  const packed = args[0];
+  const calls: Hex[] = [];
+  // operation (1) + to (20) + value (32) + data length (32) + data
+  let offset = 0;
+  while (offset < (packed.length - 2) / 2) {
+    const length = Number(hexToBigInt(sliceHex(packed, offset + 53, offset + 85)));
+    calls.push(sliceHex(packed, offset + 85, offset + 85 + length));
+    offset += 85 + length;
+  }
+  return calls;
+}
+
+/**
+ * JSON-RPC fake that runs every eth_call from a fresh starting state with a balance of one.
+ */
+function fakeRpc() {
+  const calls: Hex[][] = [];
+  const fetchFn = async (_url: unknown, init?: RequestInit) => {
+    const { id, method, params } = JSON.parse(String(init?.body));
+    const reply = (body: object) =>
+      new Response(JSON.stringify({ jsonrpc: "2.0", id, ...body }), {
+        headers: { "content-type": "application/json" },
+      });
+
+    if (method === "eth_getCode") return reply({ result: "0x6001" });
+    if (method !== "eth_call") return reply({ error: { code: -32601, message: "unsupported" } });
+
+    const { to, data } = params[0] as { to: string; data: Hex };
+    const batch = to.toLowerCase() === SAFE.toLowerCase() ? unpackMultiSend(data) : [data];
+    calls.push(batch);
+
+    const revert = (reason: string) =>
+      reply({
+        error: {
+          code: 3,
+          message: `execution reverted: ${reason}`,
+          data: encodeErrorResult({ abi: errorAbi, errorName: "Error", args: [reason] }),
+        },
+      });
+
+    let balance = 1;
+    for (const call of batch) {
+      if (call === FAIL) return revert("always fails");
+      if (call !== SPEND) continue;
+      if (balance === 0) return revert("insufficient balance");
+      balance -= 1;
+    }
+    return reply({ result: "0x" });
+  };
+  return { fetchFn, calls };
+}
+
+describe("simulateSafeTransactions", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function simulate(txs: SafeTransaction[]) {
+    const rpc = fakeRpc();
+    vi.stubGlobal("fetch", rpc.fetchFn);
+    const result = await simulateSafeTransactions({
+      rpcUrl: "http://rpc.test",
+      safeAddress: SAFE,
+      txs,
+      multisendAddress: MULTISEND,
+    });
+    return { result, calls: rpc.calls };
+  }
+
+  it("passes a batch whose transactions succeed in order", async () => {
+    const { result, calls } = await simulate([tx(NOOP), tx(SPEND), tx(NOOP)]);
+    expect(result).toEqual({ success: true });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("finds a transaction that only reverts because of the ones before it", async () => {
+    // The last spend succeeds on its own; it fails only after the first one used the balance.
+    const { result } = await simulate([
+      tx(SPEND),
+      tx(NOOP),
+      tx(NOOP),
+      tx(NOOP),
+      tx(SPEND),
+      tx(NOOP),
+    ]);
+    expect(result).toMatchObject({
+      success: false,
+      failedIndex: 4,
+      errorName: "Error",
+      revertReason: "insufficient balance",
+    });
+  });
+
+  it("calls a single transaction directly and decodes its revert reason", async () => {
+    const { result, calls } = await simulate([tx(FAIL)]);
+    expect(result).toEqual({
+      success: false,
+      failedIndex: 0,
+      errorName: "Error",
+      revertReason: "always fails",
+      revertData: expect.stringMatching(/^0x08c379a0/),
+    });
+    expect(calls).toEqual([[FAIL]]);
+  });
+
+  it("narrows a failing batch down with a logarithmic number of prefix calls", async () => {
+    const txs = [...Array.from({ length: 15 }, () => tx(NOOP)), tx(FAIL)];
+    const { result, calls } = await simulate(txs);
+    expect(result).toMatchObject({ success: false, failedIndex: 15 });
+    expect(calls.length).toBeLessThanOrEqual(1 + Math.ceil(Math.log2(txs.length)));
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+
+import { InvalidResponseError } from "../src/errors.js";
+import type { ValidationWarning } from "../src/types.js";
+import { ResponseValidator, type ResponseSchema } from "../src/validation.js";
+
+// Subset of the Gamma market schema used by PolymarketDataClient.
+const marketSchema: ResponseSchema = {
+  id: { kind: "string", required: true },
+  active: { kind: "boolean", required: true },
+  clobTokenIds: { kind: "stringArrayJson" },
+  outcomePrices: { kind: "decimalArrayJson" },
+  liquidity: { kind: "numeric" },
+  volume: { kind: "decimalString", nullable: true },
+  orderMinSize: { kind: "number" },
+};
+
+const source = { service: "gamma", url: "https://gamma.test/markets" } as const;
+
+function market(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "1",
+    active: true,
+    clobTokenIds: '["111","222"]',
+    outcomePrices: '["0.4","0.6"]',
+    liquidity: "1500.5",
+    volume: "20",
+    orderMinSize: 5,
+    ...overrides,
+  };
+}
+
+// The fourth market carries a malformed clobTokenIds string.
+const markets = [
+  market(),
+  market({ id: "2" }),
+  market({ id: "3" }),
+  market({ id: "4", clobTokenIds: "[111, 222" }),
+];
+
+describe("ResponseValidator", () => {
+  it("passes well-formed responses through unchanged in both modes", () => {
+    for (const mode of ["strict", "lenient"] as const) {
+      const warnings: ValidationWarning[] = [];
+      const validator = new ResponseValidator({ mode, onWarning: (w) => warnings.push(w) });
+      expect(validator.validateArray(markets.slice(0, 3), marketSchema, source)).toEqual(
+        markets.slice(0, 3)
+      );
+      expect(warnings).toEqual([]);
+    }
+  });
+
+  it("names the first bad field by path in strict mode", () => {
+    const validator = new ResponseValidator({ mode: "strict" });
+    let error: unknown;
+    try {
+      validator.validateArray(markets, marketSchema, source);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error).toMatchObject({
+      service: "gamma",
+      url: source.url,
+      field: "[3].clobTokenIds",
+    });
+    expect((error as Error).message).toContain("[3].clobTokenIds");
+  });
+
+  it("throws in strict mode on values lenient mode would coerce", () => {
+    const validator = new ResponseValidator({ mode: "strict" });
+    expect(() => validator.validateObject(market({ active: "true" }), marketSchema, source)).toThrow(
+      expect.objectContaining({ field: "active" })
+    );
+    expect(() => validator.validateObject(market({ id: undefined }), marketSchema, source)).toThrow(
+      expect.objectContaining({ field: "id" })
+    );
+  });
+
+  it("coerces what it can in lenient mode and reports each change", () => {
+    const warnings: ValidationWarning[] = [];
+    const validator = new ResponseValidator({ onWarning: (w) => warnings.push(w) });
+    const out = validator.validateObject<Record<string, unknown>>(
+      market({
+        id: 7,
+        active: "false",
+        clobTokenIds: ["111", "222"],
+        volume: 20,
+        orderMinSize: "5",
+      }),
+      marketSchema,
+      source
+    );
+
+    expect(out).toMatchObject({
+      id: "7",
+      active: false,
+      clobTokenIds: '["111","222"]',
+      volume: "20",
+      orderMinSize: 5,
+    });
+    expect(warnings.map((w) => w.field)).toEqual([
+      "id",
+      "active",
+      "clobTokenIds",
+      "volume",
+      "orderMinSize",
+    ]);
+    expect(warnings.every((w) => w.message.endsWith("(coerced)"))).toBe(true);
+  });
+
+  it("keeps uncoercible values and drops non-object elements in lenient mode", () => {
+    const warnings: ValidationWarning[] = [];
+    const validator = new ResponseValidator({ onWarning: (w) => warnings.push(w) });
+    const out = validator.validateArray<Record<string, unknown>>(
+      [...markets, "not a market"],
+      marketSchema,
+      source
+    );
+
+    expect(out).toHaveLength(4);
+    expect(out[3]?.clobTokenIds).toBe("[111, 222");
+    expect(warnings).toEqual([
+      {
+        service: "gamma",
+        url: source.url,
+        field: "[3].clobTokenIds",
+        message: 'expected JSON-encoded array of strings, got "[111, 222"',
+      },
+      {
+        service: "gamma",
+        url: source.url,
+        field: "[4]",
+        message: 'expected an object, got "not a market" (dropped)',
+      },
+    ]);
+  });
+});